@@ -1,11 +1,153 @@
-import type { PlasmoCSConfig } from "plasmo"
+// FastChecker background service worker - runs ASIN checks independently of the
+// side panel so closing the panel doesn't stop a run
 
-export const config: PlasmoCSConfig = {
-  matches: ["<all_urls>"],
-  all_frames: false
-}
+import {
+  attachPort,
+  cancelJob,
+  checkRemaining,
+  clearJob,
+  ensureJobLoaded,
+  getCurrentJob,
+  pauseJob,
+  resumeJob,
+  startJob
+} from './background/checkJob';
+import { handleWatchlistAlarm, runWatchlist, syncWatchlistAlarms } from './background/watchlistScheduler';
+import { getAsinStatuses, getCachedAsinStatus } from './background/asinStatus';
+import { handleContextMenuClick, syncContextMenus } from './background/contextMenu';
+import { handleCommand, handleOmniboxEnter, handleOmniboxInput } from './background/shortcuts';
+import {
+  BackgroundMessage,
+  BackgroundResponse,
+  CHECK_JOB_PORT,
+  PENDING_ASIN_DETAILS_KEY,
+  PendingAsinDetails
+} from './types/messages';
 
-export default function IndexContentScript() {
-  return null
-}
+declare function importScripts(...urls: string[]): void;
 
+// Shared API services (classic scripts, copied next to the bundle at build time)
+importScripts('services/authService.js', 'services/apiClient.js');
+
+const handleMessage = async (
+  message: BackgroundMessage,
+  sender: chrome.runtime.MessageSender
+): Promise<BackgroundResponse> => {
+  switch (message.type) {
+    case 'START_CHECK': {
+      const { asins, inputOrder, type: _type, ...options } = message;
+      return { success: true, job: await startJob(asins, inputOrder, options) };
+    }
+    case 'CHECK_REMAINING':
+      return { success: true, job: await checkRemaining() };
+    case 'PAUSE_CHECK':
+      await pauseJob();
+      break;
+    case 'RESUME_CHECK':
+      await resumeJob();
+      break;
+    case 'CANCEL_CHECK':
+      await cancelJob();
+      break;
+    case 'CLEAR_CHECK':
+      await clearJob();
+      break;
+    case 'SYNC_WATCHLISTS':
+      await syncWatchlistAlarms();
+      return { success: true };
+    case 'RUN_WATCHLIST':
+      // Results arrive through the watchlist storage; don't hold the channel open
+      runWatchlist(message.watchlistId);
+      return { success: true };
+    case 'GET_ASIN_STATUSES':
+      return {
+        success: true,
+        results: await getAsinStatuses(message.asins, message.marketplace, message.cachedOnly)
+      };
+    case 'OPEN_ASIN_DETAILS': {
+      // Open before any await: the badge click is the user gesture sidePanel.open needs
+      const opening = sender.tab?.id !== undefined
+        ? chrome.sidePanel.open({ tabId: sender.tab.id })
+        : Promise.resolve();
+      const details: PendingAsinDetails = {
+        asin: message.asin,
+        marketplace: message.marketplace,
+        result: getCachedAsinStatus(message.asin, message.marketplace),
+        requestedAt: Date.now()
+      };
+      await chrome.storage.local.set({ [PENDING_ASIN_DETAILS_KEY]: details });
+      await opening;
+      return { success: true };
+    }
+    default:
+      return { success: false, error: 'Unknown message type' };
+  }
+  return { success: true, job: getCurrentJob() };
+};
+
+chrome.runtime.onMessage.addListener((message: BackgroundMessage, sender, sendResponse) => {
+  handleMessage(message, sender)
+    .then(sendResponse)
+    .catch((error) => {
+      console.error('Background message error:', error);
+      sendResponse({ success: false, error: error.message });
+    });
+  // Keep the channel open for the async response
+  return true;
+});
+
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === CHECK_JOB_PORT) {
+    attachPort(port);
+  }
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  handleWatchlistAlarm(alarm).catch(error => {
+    console.error('Watchlist alarm error:', error);
+  });
+});
+
+chrome.contextMenus.onClicked.addListener((info) => {
+  handleContextMenuClick(info).catch(error => {
+    console.error('Context menu check error:', error);
+  });
+});
+
+chrome.commands.onCommand.addListener((command, tab) => {
+  handleCommand(command, tab).catch(error => {
+    console.error('Keyboard shortcut error:', error);
+  });
+});
+
+chrome.omnibox.onInputChanged.addListener((text, suggest) => {
+  handleOmniboxInput(text, suggest).catch(error => {
+    console.error('Omnibox check error:', error);
+  });
+});
+
+chrome.omnibox.onInputEntered.addListener((text, disposition) => {
+  handleOmniboxEnter(text, disposition).catch(error => {
+    console.error('Omnibox navigation error:', error);
+  });
+});
+
+// Alarms can be lost on browser updates; recreate them from storage
+chrome.runtime.onStartup.addListener(() => {
+  syncWatchlistAlarms();
+  syncContextMenus();
+});
+chrome.runtime.onInstalled.addListener(() => {
+  syncWatchlistAlarms();
+  syncContextMenus();
+});
+
+// Menu titles follow the language picked in the side panel
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes.language) {
+    syncContextMenus();
+  }
+});
+
+// Pick up a run that was interrupted when the worker was stopped
+ensureJobLoaded();
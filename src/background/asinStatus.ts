@@ -0,0 +1,126 @@
+// ASIN status lookups for the Amazon page badges - answered from the current
+// run, a short-lived cache or recent history before a fresh check is spent
+
+import { CheckResult } from '../types/check';
+import { getRecentResults } from '../utils/checkHistory';
+import { ensureJobLoaded, findJobResult, publishUsage } from './checkJob';
+
+declare const apiClient: any;
+
+const BATCH_SIZE = 5;
+const BATCH_DELAY = 200;
+const RESULT_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+
+// `${marketplace}:${asin}` -> result; lives as long as the worker
+const cache = new Map<string, CheckResult>();
+// Lookups in flight, so several tabs showing the same ASIN share one check
+const pending = new Map<string, Promise<CheckResult | undefined>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getCacheKey = (asin: string, marketplace: string) => `${marketplace}:${asin}`;
+
+// A cached-only lookup can't stand in for one that may check
+const getPendingKey = (asin: string, marketplace: string, cachedOnly: boolean) => {
+  return `${cachedOnly ? 'cached' : 'any'}:${getCacheKey(asin, marketplace)}`;
+};
+
+const isFresh = (result: CheckResult) => {
+  return !!result.checkedAt && Date.now() - result.checkedAt < RESULT_MAX_AGE;
+};
+
+export const getCachedAsinStatus = (asin: string, marketplace: string): CheckResult | undefined => {
+  return cache.get(getCacheKey(asin, marketplace)) || findJobResult(asin, marketplace);
+};
+
+// Marketplace from the SP-API settings, for checks that don't name one
+export const getSettingsMarketplace = async (): Promise<string | undefined> => {
+  try {
+    const result = await apiClient.getSettings();
+    return result.success ? result.settings?.marketplace || undefined : undefined;
+  } catch (error) {
+    console.error('Failed to read the marketplace from settings:', error);
+    return undefined;
+  }
+};
+
+// Fresh checks only, in throttled batches; results come stamped with the marketplace
+export const checkFresh = async (asins: string[], marketplace?: string): Promise<CheckResult[]> => {
+  const results: CheckResult[] = [];
+  for (let i = 0; i < asins.length; i += BATCH_SIZE) {
+    // Search pages send dozens of ASINs at once
+    if (i > 0) await sleep(BATCH_DELAY);
+    const batch = asins.slice(i, i + BATCH_SIZE);
+    const result = await apiClient.checkASINs(batch, { marketplace });
+    if (!result.success || !result.results) {
+      console.warn('⚠️ ASIN status check failed:', result.error);
+      // Nothing more will go through once the monthly limit is reached
+      if (result.quotaExceeded) break;
+      continue;
+    }
+    const checkedAt = Date.now();
+    results.push(...result.results.map((item: CheckResult) => ({ ...item, marketplace, checkedAt })));
+    publishUsage(result.usage);
+  }
+  return results;
+};
+
+const lookUp = async (asins: string[], marketplace: string, cachedOnly: boolean): Promise<Map<string, CheckResult>> => {
+  await ensureJobLoaded();
+  const found = new Map<string, CheckResult>();
+  asins.forEach(asin => {
+    const known = getCachedAsinStatus(asin, marketplace);
+    if (known && isFresh(known)) found.set(asin, known);
+  });
+
+  if (found.size < asins.length) {
+    try {
+      const recent = await getRecentResults(Date.now() - RESULT_MAX_AGE, marketplace);
+      asins.forEach(asin => {
+        const result = recent.get(asin);
+        if (result && !found.has(asin)) found.set(asin, result);
+      });
+    } catch (error) {
+      console.error('Failed to read check history for badges:', error);
+    }
+  }
+
+  const missing = asins.filter(asin => !found.has(asin));
+  if (missing.length > 0 && !cachedOnly) {
+    (await checkFresh(missing, marketplace)).forEach(result => found.set(result.asin, result));
+  }
+
+  found.forEach((result, asin) => cache.set(getCacheKey(asin, marketplace), result));
+  return found;
+};
+
+/**
+ * Results for the ASINs in one marketplace, in the given order. ASINs that
+ * could not be checked are left out; with `cachedOnly`, so are ASINs without
+ * a recent result, and no check from the quota is spent.
+ */
+export const getAsinStatuses = async (
+  asins: string[],
+  marketplace: string,
+  cachedOnly = false
+): Promise<CheckResult[]> => {
+  const unique = [...new Set(asins)];
+  const toLookUp = unique.filter(asin => !pending.has(getPendingKey(asin, marketplace, cachedOnly)));
+
+  if (toLookUp.length > 0) {
+    const lookup = lookUp(toLookUp, marketplace, cachedOnly);
+    toLookUp.forEach(asin => {
+      const key = getPendingKey(asin, marketplace, cachedOnly);
+      const promise = lookup
+        .then(found => found.get(asin))
+        .catch(() => undefined)
+        .finally(() => pending.delete(key));
+      pending.set(key, promise);
+    });
+  }
+
+  const results = await Promise.all(unique.map(asin => {
+    return pending.get(getPendingKey(asin, marketplace, cachedOnly)) || cache.get(getCacheKey(asin, marketplace));
+  }));
+  return results.filter((result): result is CheckResult => !!result);
+};
@@ -0,0 +1,467 @@
+// Check job runner - owns the ASIN check queue in the background service worker,
+// persists progress in chrome.storage and streams updates to attached side panels.
+// Results are stored apart from the progress, in fixed-size chunks, so a batch
+// only rewrites the chunk it lands in
+
+import { CheckJob, CheckJobSummary, CheckResult } from '../types/check';
+import { CheckJobEvent } from '../types/messages';
+import { runBulkJob } from '../utils/bulkJob';
+import { getBulkCheckThreshold } from '../utils/checkPreferences';
+import { formatSourceCodes } from '../utils/identifier';
+import { saveHistoryEntry } from '../utils/checkHistory';
+import { getRunCheckCount, isMultiMarketplaceRun, toNotFoundResult } from '../utils/marketplaceMatrix';
+
+declare const apiClient: any;
+
+// ✅ BATCH PROCESSING: Process 5 ASINs at once for better performance
+const BATCH_SIZE = 5;
+const BATCH_DELAY = 200;
+const JOB_STORAGE_KEY = 'check_job';
+const RESULT_CHUNK_KEY_PREFIX = 'check_job_results_';
+const RESULT_CHUNK_SIZE = 100;
+const JOB_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+
+export type StartJobOptions = Pick<CheckJob, 'identifiers' | 'marketplace' | 'marketplaces' | 'conditions'>;
+
+let currentJob: CheckJob | null = null;
+let jobLoaded: Promise<void> | null = null;
+let abortController: AbortController | null = null;
+let isLoopRunning = false;
+const ports = new Set<chrome.runtime.Port>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toSummary = (job: CheckJob): CheckJobSummary => {
+  const { results, ...summary } = job;
+  return { ...summary, resultCount: results.length };
+};
+
+const broadcast = (event: CheckJobEvent) => {
+  ports.forEach(port => {
+    try {
+      port.postMessage(event);
+    } catch (error) {
+      console.error('Failed to post check job event:', error);
+      ports.delete(port);
+    }
+  });
+};
+
+const getResultChunkKeys = (resultCount: number): string[] => {
+  return Array.from(
+    { length: Math.ceil(resultCount / RESULT_CHUNK_SIZE) },
+    (_, index) => `${RESULT_CHUNK_KEY_PREFIX}${index}`
+  );
+};
+
+// Progress fields only; results go through saveResults
+const saveJob = async (job: CheckJob) => {
+  job.updatedAt = Date.now();
+  try {
+    await chrome.storage.local.set({ [JOB_STORAGE_KEY]: toSummary(job) });
+  } catch (error) {
+    console.error('Failed to persist check job:', error);
+  }
+};
+
+// Rewrites the chunks holding results from `fromIndex` on
+const saveResults = async (job: CheckJob, fromIndex: number) => {
+  const chunks: Record<string, CheckResult[]> = {};
+  getResultChunkKeys(job.results.length).forEach((key, index) => {
+    if ((index + 1) * RESULT_CHUNK_SIZE > fromIndex) {
+      chunks[key] = job.results.slice(index * RESULT_CHUNK_SIZE, (index + 1) * RESULT_CHUNK_SIZE);
+    }
+  });
+  try {
+    await chrome.storage.local.set(chunks);
+  } catch (error) {
+    console.error('Failed to persist check job results:', error);
+  }
+};
+
+const loadResults = async (resultCount: number): Promise<CheckResult[]> => {
+  const keys = getResultChunkKeys(resultCount);
+  const data = await chrome.storage.local.get(keys);
+  return keys.flatMap(key => data[key] || []).slice(0, resultCount);
+};
+
+const removeStoredJob = async (resultCount: number) => {
+  await chrome.storage.local.remove([JOB_STORAGE_KEY, ...getResultChunkKeys(resultCount)]);
+};
+
+const publishState = async (job: CheckJob) => {
+  await saveJob(job);
+  broadcast({ type: 'JOB_STATE', job: toSummary(job) });
+};
+
+// ASINs whose checks (ASIN x marketplace) haven't been sent yet
+const getUnsentAsins = (job: CheckJob): string[] => {
+  const unsent = new Set<string>();
+  for (let i = job.nextIndex; i < getRunCheckCount(job); i++) {
+    unsent.add(job.asins[i % job.asins.length]);
+  }
+  return [...unsent];
+};
+
+const addResults = async (job: CheckJob, incoming: CheckResult[], marketplace?: string) => {
+  // Stamp where and when each ASIN was checked, and the UPC/EAN/ISBN it was resolved from
+  const checkedAt = Date.now();
+  const results = incoming.map(result => {
+    const identifier = formatSourceCodes(job.identifiers, result.asin);
+    return {
+      ...result,
+      marketplace: marketplace || result.marketplace || job.marketplace,
+      checkedAt,
+      ...(identifier ? { identifier } : {})
+    };
+  });
+  const fromIndex = job.results.length;
+  job.results.push(...results);
+  await saveResults(job, fromIndex);
+  await saveJob(job);
+  broadcast({ type: 'JOB_RESULTS', jobId: job.id, results });
+};
+
+export const publishUsage = (usage: any) => {
+  if (usage) {
+    broadcast({ type: 'USAGE_UPDATED', usage });
+  }
+};
+
+/**
+ * Loads the persisted job once per worker lifetime. A job that was still
+ * running when the worker was stopped picks up from its first unsent ASIN.
+ */
+export const ensureJobLoaded = (): Promise<void> => {
+  if (!jobLoaded) {
+    jobLoaded = (async () => {
+      try {
+        const data = await chrome.storage.local.get([JOB_STORAGE_KEY]);
+        const stored: (CheckJobSummary & Partial<Pick<CheckJob, 'results'>>) | undefined = data[JOB_STORAGE_KEY];
+        if (!stored) return;
+
+        const isFinished = stored.status === 'completed' || stored.status === 'cancelled';
+        if (isFinished && Date.now() - stored.updatedAt > JOB_MAX_AGE) {
+          await removeStoredJob(stored.resultCount || 0);
+          return;
+        }
+
+        // Jobs saved before results were chunked carry them inline
+        const { resultCount, results, ...progress } = stored;
+        const job: CheckJob = { ...progress, results: results || await loadResults(resultCount) };
+        currentJob = job;
+        if (job.status === 'running') {
+          console.log(`🔁 Resuming check job ${job.id} at ${job.nextIndex}/${getRunCheckCount(job)}`);
+          runJob(job);
+        }
+      } catch (error) {
+        console.error('Failed to load check job:', error);
+      }
+    })();
+  }
+  return jobLoaded;
+};
+
+export const attachPort = async (port: chrome.runtime.Port) => {
+  ports.add(port);
+  port.onDisconnect.addListener(() => ports.delete(port));
+
+  await ensureJobLoaded();
+  port.postMessage({ type: 'JOB_SNAPSHOT', job: currentJob } as CheckJobEvent);
+};
+
+// Result of the current run for an ASIN in the given marketplace, if it has one
+export const findJobResult = (asin: string, marketplace: string): CheckResult | undefined => {
+  const job = currentJob;
+  if (!job) return undefined;
+  return job.results.find(result => result.asin === asin && (result.marketplace || job.marketplace) === marketplace);
+};
+
+export const getCurrentJob = (): CheckJobSummary | null => {
+  return currentJob ? toSummary(currentJob) : null;
+};
+
+/**
+ * Sends the run in batches. Multi-marketplace runs go through the ASIN list
+ * once per marketplace; a batch never spans two marketplaces.
+ */
+const fetchInBatches = async (job: CheckJob) => {
+  const checkCount = getRunCheckCount(job);
+  while (job.nextIndex < checkCount) {
+    // ⏸️ PAUSE: idle until resumed or cancelled
+    while (job.status === 'paused') {
+      await sleep(100);
+    }
+    if (job.status === 'cancelled') {
+      return;
+    }
+
+    const offset = job.nextIndex % job.asins.length;
+    const marketplace = job.marketplaces?.[Math.floor(job.nextIndex / job.asins.length)];
+    const batch = job.asins.slice(offset, offset + BATCH_SIZE);
+    console.log(`📦 Fetching batch ${Math.floor(offset / BATCH_SIZE) + 1}/${Math.ceil(job.asins.length / BATCH_SIZE)}${marketplace ? ` (${marketplace})` : ''}: ${batch.join(', ')}`);
+
+    abortController = new AbortController();
+    const checkOptions = {
+      ...(job.conditions?.length ? { conditions: job.conditions } : {}),
+      ...(marketplace ? { marketplace } : {})
+    };
+    const result = await apiClient.checkASINs(batch, checkOptions, { signal: abortController.signal });
+    abortController = null;
+
+    if (result.aborted) {
+      // Cancelled mid-request: this batch counts as never sent
+      console.log('⏹️ Batch request aborted:', batch);
+      return;
+    }
+
+    if (result.quotaExceeded) {
+      // ✅ QUOTA: stop like a cancel so the unsent ASINs can be checked after an upgrade
+      console.warn('🚫 Monthly check limit reached, stopping run');
+      job.status = 'cancelled';
+      job.quotaExceeded = true;
+      publishUsage(result.usage);
+      return;
+    }
+
+    job.nextIndex += batch.length;
+
+    if (result.success && result.results && result.results.length > 0) {
+      const results: CheckResult[] = [...result.results];
+      if (isMultiMarketplaceRun(job) && marketplace) {
+        // ASINs a marketplace doesn't list come back missing; show them as not found there
+        batch
+          .filter(asin => !results.some(item => item.asin === asin))
+          .forEach(asin => results.push(toNotFoundResult(asin, marketplace)));
+      }
+      await addResults(job, results, marketplace);
+      publishUsage(result.usage);
+    } else {
+      console.warn(`⚠️ No results received for batch:`, batch);
+      job.failedCount += batch.length;
+      await publishState(job);
+    }
+
+    // Small delay between batch requests (rate limiting)
+    if (job.nextIndex < checkCount) {
+      await sleep(BATCH_DELAY);
+    }
+  }
+};
+
+// ✅ BULK JOB: Large lists are submitted as one job and streamed back.
+// A job with a bulkJobId was submitted before the worker stopped and is followed again
+const fetchViaBulkJob = async (job: CheckJob): Promise<boolean> => {
+  const resume = job.bulkJobId
+    ? { jobId: job.bulkJobId, receivedAsins: job.results.map(result => result.asin) }
+    : undefined;
+  // Stream events arrive faster than they are stored; keep them in order
+  let storing = Promise.resolve();
+  const handled = await runBulkJob(job.asins, {
+    onJobCreated: async (jobId) => {
+      // Every ASIN is on the server now; never resubmit them
+      job.bulkJobId = jobId;
+      job.nextIndex = job.asins.length;
+      await saveJob(job);
+    },
+    onResults: (results) => {
+      storing = storing
+        .then(() => addResults(job, results))
+        .catch(error => console.error('Failed to add bulk job results:', error));
+    },
+    onUsage: publishUsage,
+    isCancelled: () => job.status === 'cancelled',
+    isPaused: () => job.status === 'paused'
+  }, resume);
+  await storing;
+
+  if (handled && job.status !== 'cancelled') {
+    // ASINs the job never returned count as failed, not as silently missing
+    const received = new Set(job.results.map(result => result.asin));
+    job.failedCount += job.asins.filter(asin => !received.has(asin)).length;
+  }
+  return handled;
+};
+
+const runJob = async (job: CheckJob) => {
+  if (isLoopRunning) return;
+  isLoopRunning = true;
+
+  try {
+    const bulkThreshold = await getBulkCheckThreshold();
+    // The bulk endpoint doesn't take manualCheckOptions, so condition and
+    // marketplace runs always go in batches
+    const useBulkJob = !!job.bulkJobId || (
+      job.nextIndex === 0 &&
+      !job.conditions?.length &&
+      !job.marketplaces?.length &&
+      job.asins.length >= bulkThreshold
+    );
+    if (!useBulkJob || !(await fetchViaBulkJob(job))) {
+      await fetchInBatches(job);
+    }
+  } catch (error) {
+    console.error('❌ Error running check job:', error);
+  } finally {
+    isLoopRunning = false;
+    abortController = null;
+  }
+
+  if (job !== currentJob) return;
+
+  if (job.status === 'paused') {
+    // Paused after the last check was sent; resuming finishes the run
+    await publishState(job);
+    return;
+  }
+
+  if (job.status === 'cancelled') {
+    // Keep ASINs that were never sent so the run can be resumed later
+    job.unsentAsins = getUnsentAsins(job);
+    console.log(`⏹️ Check cancelled, ${job.unsentAsins.length} ASIN(s) not sent`);
+  } else {
+    job.status = 'completed';
+    console.log(`✅ Check job ${job.id} completed with ${job.results.length} results`);
+  }
+  await publishState(job);
+  await saveToHistory(job);
+};
+
+// Finished runs go to the history store; "check remaining" overwrites the same entry
+const saveToHistory = async (job: CheckJob) => {
+  if (job.results.length === 0) return;
+  try {
+    await saveHistoryEntry({
+      id: job.id,
+      status: job.status === 'cancelled' ? 'cancelled' : 'completed',
+      marketplace: job.marketplace,
+      marketplaces: job.marketplaces,
+      conditions: job.conditions,
+      inputOrder: job.inputOrder,
+      identifiers: job.identifiers,
+      results: job.results,
+      failedCount: job.failedCount,
+      unsentAsins: job.unsentAsins,
+      createdAt: job.createdAt,
+      completedAt: Date.now()
+    });
+  } catch (error) {
+    console.error('Failed to save check history:', error);
+  }
+};
+
+const waitForLoopToStop = async () => {
+  while (isLoopRunning) {
+    await sleep(50);
+  }
+};
+
+export const startJob = async (
+  asins: string[],
+  inputOrder: string[],
+  { identifiers, marketplace, marketplaces, conditions }: StartJobOptions = {}
+): Promise<CheckJobSummary> => {
+  await ensureJobLoaded();
+  if (currentJob && (currentJob.status === 'running' || currentJob.status === 'paused')) {
+    await cancelJob();
+    await waitForLoopToStop();
+  }
+  if (currentJob) {
+    // The new run's chunks would only overwrite the start of the old one's
+    await removeStoredJob(currentJob.results.length);
+  }
+
+  const now = Date.now();
+  const job: CheckJob = {
+    id: `${now}-${Math.random().toString(36).substr(2, 6)}`,
+    status: 'running',
+    asins,
+    inputOrder,
+    identifiers,
+    marketplace,
+    marketplaces,
+    conditions,
+    nextIndex: 0,
+    results: [],
+    failedCount: 0,
+    unsentAsins: [],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  currentJob = job;
+  console.log(`🚀 Starting check job ${job.id} for ${asins.length} UNIQUE ASINs`);
+  await publishState(job);
+  runJob(job);
+  return toSummary(job);
+};
+
+/**
+ * Continues a cancelled job with the ASINs it never sent. Results of the
+ * cancelled part are kept and new ones are appended.
+ */
+export const checkRemaining = async (): Promise<CheckJobSummary | null> => {
+  await ensureJobLoaded();
+  const job = currentJob;
+  if (!job || job.status !== 'cancelled' || job.unsentAsins.length === 0) {
+    return null;
+  }
+
+  await waitForLoopToStop();
+  // Multi-marketplace runs pick up where they stopped; other runs re-queue the unsent ASINs
+  if (!job.marketplaces?.length) {
+    job.asins = job.unsentAsins;
+    job.nextIndex = 0;
+    job.bulkJobId = undefined;
+  }
+  job.unsentAsins = [];
+  job.failedCount = 0;
+  job.quotaExceeded = false;
+  job.status = 'running';
+
+  await publishState(job);
+  runJob(job);
+  return toSummary(job);
+};
+
+export const pauseJob = async () => {
+  await ensureJobLoaded();
+  if (currentJob?.status === 'running') {
+    currentJob.status = 'paused';
+    await publishState(currentJob);
+  }
+};
+
+export const resumeJob = async () => {
+  await ensureJobLoaded();
+  if (currentJob?.status === 'paused') {
+    currentJob.status = 'running';
+    await publishState(currentJob);
+    runJob(currentJob);
+  }
+};
+
+export const cancelJob = async () => {
+  await ensureJobLoaded();
+  const job = currentJob;
+  if (!job || (job.status !== 'running' && job.status !== 'paused')) {
+    return;
+  }
+
+  job.status = 'cancelled';
+  abortController?.abort();
+
+  // The fetch loop publishes the final state once it stops
+  if (!isLoopRunning) {
+    job.unsentAsins = getUnsentAsins(job);
+    await publishState(job);
+  }
+};
+
+export const clearJob = async () => {
+  await cancelJob();
+  const resultCount = currentJob?.results.length || 0;
+  currentJob = null;
+  await removeStoredJob(resultCount);
+  broadcast({ type: 'JOB_SNAPSHOT', job: null });
+};
@@ -0,0 +1,136 @@
+// Context menu checks - "Check with FastChecker" on selected text and links.
+// Results are shown as a notification and saved to the check history
+
+import { Language } from '../contexts/LanguageContext';
+import { CheckResult, StatusClass } from '../types/check';
+import { parseAsinInput } from '../utils/asin';
+import { saveHistoryEntry } from '../utils/checkHistory';
+import { getStoredLanguage, getText } from '../utils/language';
+import { getProductTitle, getStatusClass } from '../utils/resultStatus';
+import { checkFresh, getSettingsMarketplace } from './asinStatus';
+import { NOTIFICATION_ICON } from './notifications';
+
+const SELECTION_MENU_ID = 'fastchecker-check-selection';
+const LINK_MENU_ID = 'fastchecker-check-link';
+const MAX_MENU_ASINS = 20; // larger lists belong in the side panel
+
+const STATUS_LABEL_KEYS: Record<StatusClass, string> = {
+  success: 'badgeSellable',
+  warning: 'badgeApprovalRequired',
+  error: 'badgeRestricted',
+  'not-found': 'badgeNotFound'
+};
+
+/**
+ * (Re)creates the menu entries in the stored language. Called on install,
+ * on startup and when the language changes.
+ */
+export const syncContextMenus = async () => {
+  const language = await getStoredLanguage();
+  await chrome.contextMenus.removeAll();
+  chrome.contextMenus.create({
+    id: SELECTION_MENU_ID,
+    title: getText('contextMenuCheckSelection', language),
+    contexts: ['selection']
+  });
+  chrome.contextMenus.create({
+    id: LINK_MENU_ID,
+    title: getText('contextMenuCheckLink', language),
+    contexts: ['link']
+  });
+};
+
+const notify = async (title: string, message: string) => {
+  try {
+    await chrome.notifications.create(`context-menu:${Date.now()}`, {
+      type: 'basic',
+      iconUrl: NOTIFICATION_ICON,
+      title,
+      message
+    });
+  } catch (error) {
+    console.error('Failed to show context menu notification:', error);
+  }
+};
+
+export const getResultLabel = (result: CheckResult, language: Language) => {
+  if (result.status === 'error') return getText('badgeFailed', language);
+  return getText(STATUS_LABEL_KEYS[getStatusClass(result)], language);
+};
+
+const notifyResults = async (asins: string[], results: CheckResult[], skipped: number) => {
+  const language = await getStoredLanguage();
+  const skippedNote = skipped > 0
+    ? ` ${getText('contextMenuSkipped', language).replace('{count}', skipped.toString())}`
+    : '';
+
+  if (results.length === 0) {
+    await notify(getText('contextMenuCheckFailed', language), `${asins.join(', ')}${skippedNote}`);
+    return;
+  }
+
+  if (asins.length === 1) {
+    const [result] = results;
+    await notify(`${result.asin} · ${getResultLabel(result, language)}`, getProductTitle(result));
+    return;
+  }
+
+  const counts: Record<StatusClass, number> = { success: 0, warning: 0, error: 0, 'not-found': 0 };
+  results.filter(result => result.status !== 'error').forEach(result => counts[getStatusClass(result)]++);
+  const message = getText('contextMenuSummary', language)
+    .replace('{sellable}', counts.success.toString())
+    .replace('{approval}', counts.warning.toString())
+    .replace('{restricted}', counts.error.toString())
+    .replace('{failed}', (asins.length - results.length).toString());
+  await notify(
+    getText('contextMenuResultsTitle', language).replace('{count}', asins.length.toString()),
+    `${message}${skippedNote}`
+  );
+};
+
+const checkSelection = async (text: string) => {
+  const parsed = parseAsinInput(text);
+  const unique = [...new Set(parsed.asins)];
+  if (unique.length === 0) {
+    const language = await getStoredLanguage();
+    await notify(getText('contextMenuNoAsins', language), text.slice(0, 100));
+    return;
+  }
+
+  const asins = unique.slice(0, MAX_MENU_ASINS);
+  const link = parsed.tokens.find(token => token.valid && token.marketplace);
+  // Links name their marketplace; plain ASINs use the one from the SP-API settings
+  const marketplace = link?.marketplace || await getSettingsMarketplace();
+  const createdAt = Date.now();
+
+  console.log(`🖱️ Context menu check: ${asins.join(', ')}`);
+  const results = await checkFresh(asins, marketplace);
+
+  if (results.length > 0) {
+    try {
+      await saveHistoryEntry({
+        id: `context-menu-${createdAt}`,
+        status: 'completed',
+        marketplace,
+        inputOrder: asins,
+        results,
+        failedCount: asins.length - results.length,
+        unsentAsins: [],
+        createdAt,
+        completedAt: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to save context menu check to history:', error);
+    }
+  }
+
+  await notifyResults(asins, results, unique.length - asins.length);
+};
+
+export const handleContextMenuClick = async (info: chrome.contextMenus.OnClickData) => {
+  if (info.menuItemId === SELECTION_MENU_ID && info.selectionText) {
+    await checkSelection(info.selectionText);
+  } else if (info.menuItemId === LINK_MENU_ID && info.linkUrl) {
+    await checkSelection(info.linkUrl);
+  }
+};
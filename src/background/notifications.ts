@@ -0,0 +1,5 @@
+// Notification constants shared by the background features that raise them
+// (watchlist changes, context menu checks)
+
+// 48px PNG; basic notifications can't be shown without an icon
+export const NOTIFICATION_ICON = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAADAAAAAwCAIAAADYYG7QAAAAOUlEQVR42u3OMQ0AAAgDsPmXgh4EzQXhaFIBTXZ+ERISEhISEhISEhISEhISEhISEhISEhISEhK6UyPcbsT1eBJBAAAAAElFTkSuQmCC';
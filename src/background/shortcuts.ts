@@ -0,0 +1,109 @@
+// Quick access - keyboard shortcuts (chrome.commands) and the `fc` omnibox
+// keyword, which checks a single ASIN and shows its status as a suggestion
+
+import { Language } from '../contexts/LanguageContext';
+import { CheckResult } from '../types/check';
+import { PENDING_PANEL_COMMAND_KEY, PanelCommand, PendingPanelCommand } from '../types/messages';
+import { isValidAsin, normalizeAsin } from '../utils/asin';
+import { parseAmazonUrl } from '../utils/amazonUrl';
+import { getStoredLanguage, getText } from '../utils/language';
+import { getMarketplaceDomain } from '../utils/marketplaces';
+import { getProductTitle } from '../utils/resultStatus';
+import { getAsinStatuses, getSettingsMarketplace } from './asinStatus';
+import { getResultLabel } from './contextMenu';
+
+const PANEL_COMMANDS: Record<string, PanelCommand> = {
+  'focus-asin-input': 'focusInput',
+  'start-check': 'startCheck',
+  'export-results': 'exportResults'
+};
+
+// Text typed last, so a slow lookup doesn't overwrite a newer suggestion
+let latestOmniboxText = '';
+
+/**
+ * Every shortcut opens the side panel; the panel actions are left in storage
+ * for the Check tab to pick up once it is showing.
+ */
+export const handleCommand = async (command: string, tab?: chrome.tabs.Tab) => {
+  // Open before any await: the shortcut is the user gesture sidePanel.open needs
+  const opening = tab?.id !== undefined
+    ? chrome.sidePanel.open({ tabId: tab.id })
+    : Promise.resolve();
+
+  const panelCommand = PANEL_COMMANDS[command];
+  if (panelCommand) {
+    const pending: PendingPanelCommand = { command: panelCommand, requestedAt: Date.now() };
+    await chrome.storage.local.set({ [PENDING_PANEL_COMMAND_KEY]: pending });
+  }
+  await opening;
+};
+
+// Escapes text for the XML markup omnibox descriptions are written in
+const escapeXml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// An ASIN or an Amazon link; links bring their own marketplace
+const parseOmniboxInput = (text: string): { asin: string; marketplace?: string } | null => {
+  const link = parseAmazonUrl(text);
+  if (link?.asin) return { asin: link.asin, marketplace: link.marketplace || undefined };
+  const asin = normalizeAsin(text);
+  return isValidAsin(asin) ? { asin } : null;
+};
+
+const describeResult = (result: CheckResult, language: Language) => {
+  const label = escapeXml(getResultLabel(result, language));
+  return `<match>${result.asin}</match> · ${label} <dim>${escapeXml(getProductTitle(result))}</dim>`;
+};
+
+export const handleOmniboxInput = async (
+  text: string,
+  suggest: (suggestions: chrome.omnibox.SuggestResult[]) => void
+) => {
+  latestOmniboxText = text;
+  const language = await getStoredLanguage();
+  const input = parseOmniboxInput(text.trim());
+  if (!input) {
+    chrome.omnibox.setDefaultSuggestion({ description: escapeXml(getText('omniboxHint', language)) });
+    return;
+  }
+
+  chrome.omnibox.setDefaultSuggestion({
+    description: `<match>${input.asin}</match> · ${escapeXml(getText('badgeChecking', language))}`
+  });
+  const marketplace = input.marketplace || await getSettingsMarketplace();
+  if (!marketplace) {
+    chrome.omnibox.setDefaultSuggestion({ description: escapeXml(getText('omniboxNoSettings', language)) });
+    return;
+  }
+
+  // Recent results are reused, so retyping an ASIN doesn't spend another check
+  const [result] = await getAsinStatuses([input.asin], marketplace);
+  if (text !== latestOmniboxText) return;
+  chrome.omnibox.setDefaultSuggestion({
+    description: result
+      ? describeResult(result, language)
+      : `<match>${input.asin}</match> · ${escapeXml(getText('badgeFailed', language))}`
+  });
+  suggest([]);
+};
+
+// Enter opens the product page, where the page badge shows the same status
+export const handleOmniboxEnter = async (text: string, disposition: chrome.omnibox.OnInputEnteredDisposition) => {
+  const input = parseOmniboxInput(text.trim());
+  if (!input) return;
+  const marketplace = input.marketplace || await getSettingsMarketplace();
+  const url = `https://www.${marketplace ? getMarketplaceDomain(marketplace) : 'amazon.com'}/dp/${input.asin}`;
+
+  if (disposition === 'currentTab') {
+    await chrome.tabs.update({ url });
+  } else {
+    await chrome.tabs.create({ url, active: disposition === 'newForegroundTab' });
+  }
+};
@@ -0,0 +1,211 @@
+// Watchlist scheduler - re-checks saved ASIN lists on chrome.alarms, records
+// status changes and raises notifications (runs in the background worker)
+
+import { CheckResult } from '../types/check';
+import { Watchlist, WatchlistChange } from '../types/watchlist';
+import { getStoredLanguage, getText } from '../utils/language';
+import { fetchQuotaStatus } from '../utils/quota';
+import { getProductTitle } from '../utils/resultStatus';
+import { getStatusCategory } from '../utils/runDiff';
+import { getScheduleMinutes, getWatchlists, updateWatchlist } from '../utils/watchlists';
+import { NOTIFICATION_ICON } from './notifications';
+
+declare const apiClient: any;
+
+const ALARM_PREFIX = 'watchlist:';
+const BATCH_SIZE = 5;
+const BATCH_DELAY = 200;
+const POSTPONE_MINUTES = 6 * 60; // retry when quota is short
+const MAX_CHANGES_IN_NOTIFICATION = 3;
+
+const runningWatchlists = new Set<string>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getAlarmName = (id: string) => `${ALARM_PREFIX}${id}`;
+
+const notify = async (id: string, titleKey: string, message: string, name: string) => {
+  const language = await getStoredLanguage();
+  try {
+    await chrome.notifications.create(`${getAlarmName(id)}:${Date.now()}`, {
+      type: 'basic',
+      iconUrl: NOTIFICATION_ICON,
+      title: getText(titleKey, language).replace('{name}', name),
+      message
+    });
+  } catch (error) {
+    console.error('Failed to show watchlist notification:', error);
+  }
+};
+
+const scheduleAlarm = async (watchlist: Watchlist, delayMinutes: number) => {
+  const nextRunAt = Date.now() + delayMinutes * 60 * 1000;
+  await chrome.alarms.create(getAlarmName(watchlist.id), {
+    when: nextRunAt,
+    periodInMinutes: getScheduleMinutes(watchlist)
+  });
+  await updateWatchlist(watchlist.id, current => ({ ...current, nextRunAt }));
+};
+
+/**
+ * Brings alarms in line with the stored watchlists: removed or disabled
+ * lists lose their alarm, new or rescheduled ones get a fresh one.
+ */
+export const syncWatchlistAlarms = async () => {
+  const watchlists = await getWatchlists();
+  const alarms = await chrome.alarms.getAll();
+  const alarmsByName = new Map(alarms.map(alarm => [alarm.name, alarm]));
+
+  for (const alarm of alarms) {
+    if (!alarm.name.startsWith(ALARM_PREFIX)) continue;
+    const id = alarm.name.slice(ALARM_PREFIX.length);
+    if (!watchlists.some(watchlist => watchlist.id === id && watchlist.enabled)) {
+      await chrome.alarms.clear(alarm.name);
+    }
+  }
+
+  for (const watchlist of watchlists) {
+    if (!watchlist.enabled) {
+      if (watchlist.nextRunAt) {
+        await updateWatchlist(watchlist.id, current => ({ ...current, nextRunAt: undefined }));
+      }
+      continue;
+    }
+
+    const period = getScheduleMinutes(watchlist);
+    const alarm = alarmsByName.get(getAlarmName(watchlist.id));
+    if (alarm && alarm.periodInMinutes === period) continue;
+
+    // A watchlist that never ran is checked right away to record its baseline
+    await scheduleAlarm(watchlist, watchlist.lastRunAt ? period : 0);
+  }
+};
+
+const checkAsins = async (asins: string[]): Promise<CheckResult[]> => {
+  const results: CheckResult[] = [];
+  for (let i = 0; i < asins.length; i += BATCH_SIZE) {
+    const batch = asins.slice(i, i + BATCH_SIZE);
+    const result = await apiClient.checkASINs(batch);
+    if (result.success && result.results) {
+      results.push(...result.results);
+    } else {
+      console.warn(`⚠️ No results received for watchlist batch:`, batch);
+    }
+    if (i + BATCH_SIZE < asins.length) {
+      await sleep(BATCH_DELAY);
+    }
+  }
+  return results;
+};
+
+const postponeRun = async (watchlist: Watchlist, remaining: number | null) => {
+  const language = await getStoredLanguage();
+  const message = getText('watchlistPostponedMessage', language)
+    .replace('{remaining}', remaining === null ? '?' : remaining.toString())
+    .replace('{needed}', watchlist.asins.length.toString());
+
+  console.log(`⏭️ Watchlist ${watchlist.id} postponed: ${message}`);
+  await updateWatchlist(watchlist.id, current => ({
+    ...current,
+    lastRunStatus: 'postponed',
+    lastRunMessage: message
+  }));
+  if (watchlist.enabled) {
+    await scheduleAlarm(watchlist, POSTPONE_MINUTES);
+  }
+
+  // Only tell the user once, not on every retry
+  if (watchlist.lastRunStatus !== 'postponed') {
+    await notify(watchlist.id, 'watchlistPostponedTitle', message, watchlist.name);
+  }
+};
+
+export const runWatchlist = async (id: string) => {
+  if (runningWatchlists.has(id)) return;
+  const watchlist = (await getWatchlists()).find(item => item.id === id);
+  if (!watchlist || watchlist.asins.length === 0) return;
+
+  runningWatchlists.add(id);
+  try {
+    // ✅ QUOTA: Never start a run the remaining monthly checks can't cover
+    const quota = await fetchQuotaStatus();
+    if (!quota || quota.remaining < watchlist.asins.length) {
+      await postponeRun(watchlist, quota ? quota.remaining : null);
+      return;
+    }
+
+    console.log(`👀 Re-checking watchlist ${watchlist.name} (${watchlist.asins.length} ASINs)`);
+    const results = await checkAsins(watchlist.asins);
+    if (results.length === 0) {
+      await updateWatchlist(id, current => ({
+        ...current,
+        lastRunAt: Date.now(),
+        lastRunStatus: 'failed',
+        lastRunMessage: undefined
+      }));
+      return;
+    }
+
+    const now = Date.now();
+    const statuses = { ...watchlist.statuses };
+    const changes: WatchlistChange[] = [];
+    results.forEach(result => {
+      const previous = statuses[result.asin];
+      const current = getStatusCategory(result);
+      // The first run only records a baseline
+      if (previous && previous !== current) {
+        changes.push({
+          asin: result.asin,
+          title: getProductTitle(result),
+          from: previous,
+          to: current,
+          detectedAt: now
+        });
+      }
+      statuses[result.asin] = current;
+    });
+
+    await updateWatchlist(id, current => ({
+      ...current,
+      statuses,
+      changes: [...changes, ...current.changes],
+      lastRunAt: now,
+      lastRunStatus: 'completed',
+      lastRunMessage: undefined
+    }));
+
+    if (changes.length > 0) {
+      const language = await getStoredLanguage();
+      const summary = changes
+        .slice(0, MAX_CHANGES_IN_NOTIFICATION)
+        .map(change => `${change.asin} ${change.from} → ${change.to}`)
+        .join(', ');
+      const message = getText('watchlistChangesMessage', language)
+        .replace('{count}', changes.length.toString())
+        .replace('{changes}', changes.length > MAX_CHANGES_IN_NOTIFICATION ? `${summary}, …` : summary);
+      await notify(id, 'watchlistChangesTitle', message, watchlist.name);
+    }
+  } catch (error) {
+    console.error('❌ Error running watchlist:', error);
+    await updateWatchlist(id, current => ({ ...current, lastRunAt: Date.now(), lastRunStatus: 'failed' }));
+  } finally {
+    runningWatchlists.delete(id);
+  }
+};
+
+export const handleWatchlistAlarm = async (alarm: chrome.alarms.Alarm) => {
+  if (!alarm.name.startsWith(ALARM_PREFIX)) return;
+  const id = alarm.name.slice(ALARM_PREFIX.length);
+
+  const watchlist = (await getWatchlists()).find(item => item.id === id);
+  if (!watchlist || !watchlist.enabled) {
+    await chrome.alarms.clear(alarm.name);
+    return;
+  }
+
+  await updateWatchlist(id, current => ({
+    ...current,
+    nextRunAt: alarm.periodInMinutes ? Date.now() + alarm.periodInMinutes * 60 * 1000 : undefined
+  }));
+  await runWatchlist(id);
+};
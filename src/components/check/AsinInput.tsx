@@ -0,0 +1,74 @@
+import React, { useMemo, useRef } from 'react';
+import { AsinToken } from '../../utils/asin';
+import './AsinInput.css';
+
+interface AsinInputProps {
+  value: string;
+  tokens: AsinToken[];
+  marketplace?: string; // configured marketplace; links from others are flagged
+  placeholder?: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}
+
+// Textarea with a backdrop that highlights invalid tokens and links from
+// another marketplace in place
+export const AsinInput: React.FC<AsinInputProps> = ({
+  value,
+  tokens,
+  marketplace,
+  placeholder,
+  disabled = false,
+  onChange,
+}) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const highlighted = useMemo(() => {
+    const segments: React.ReactNode[] = [];
+    let cursor = 0;
+
+    tokens.forEach((token, index) => {
+      const isMismatched = token.valid && !!token.marketplace && !!marketplace && token.marketplace !== marketplace;
+      if (token.valid && !isMismatched) return;
+
+      segments.push(value.slice(cursor, token.start));
+      segments.push(
+        <mark key={index} className={token.valid ? 'asin-mismatch' : 'asin-invalid'}>
+          {value.slice(token.start, token.end)}
+        </mark>
+      );
+      cursor = token.end;
+    });
+    segments.push(value.slice(cursor));
+
+    // Keep a trailing newline from collapsing in the backdrop
+    if (value.endsWith('\n')) {
+      segments.push(' ');
+    }
+    return segments;
+  }, [value, tokens, marketplace]);
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (backdropRef.current) {
+      backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+    }
+  };
+
+  return (
+    <div className={`asin-input-wrapper ${disabled ? 'disabled' : ''}`}>
+      <div ref={backdropRef} className="asin-highlights" aria-hidden="true">
+        {highlighted}
+      </div>
+      <textarea
+        id="asinInput"
+        className="asin-textarea"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={handleScroll}
+        disabled={disabled}
+        spellCheck={false}
+      />
+    </div>
+  );
+};
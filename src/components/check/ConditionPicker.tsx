@@ -0,0 +1,39 @@
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { ItemCondition } from '../../types/check';
+import { CONDITION_LABEL_KEYS, ITEM_CONDITIONS } from '../../utils/conditions';
+import './ConditionPicker.css';
+
+interface ConditionPickerProps {
+  value: ItemCondition[]; // empty checks without a condition
+  disabled?: boolean;
+  onChange: (conditions: ItemCondition[]) => void;
+}
+
+export const ConditionPicker: React.FC<ConditionPickerProps> = ({ value, disabled = false, onChange }) => {
+  const { t } = useLanguage();
+
+  // Keeps the fixed condition order whatever order they were picked in
+  const toggleCondition = (condition: ItemCondition) => {
+    const next = value.includes(condition)
+      ? value.filter(item => item !== condition)
+      : [...value, condition];
+    onChange(ITEM_CONDITIONS.filter(item => next.includes(item)));
+  };
+
+  return (
+    <div className="condition-picker" title={t('conditionsHint')}>
+      <span className="condition-picker-label">{t('conditions')}</span>
+      {ITEM_CONDITIONS.map(condition => (
+        <button
+          key={condition}
+          className={`condition-chip ${value.includes(condition) ? 'active' : ''}`}
+          onClick={() => toggleCondition(condition)}
+          disabled={disabled}
+        >
+          {t(CONDITION_LABEL_KEYS[condition])}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { CheckResult, ItemCondition, StatusClass } from '../../types/check';
+import { CONDITION_LABEL_KEYS, getConditionResult } from '../../utils/conditions';
+import { getStatusClass, getStatusText } from '../../utils/resultStatus';
+import './ConditionStatuses.css';
+
+interface ConditionStatusesProps {
+  result: CheckResult;
+  conditions: ItemCondition[];
+}
+
+const STATUS_MARKS: Record<StatusClass | 'unknown', string> = {
+  success: '✓',
+  warning: '!',
+  error: '✗',
+  'not-found': '?',
+  unknown: '?'
+};
+
+// One small chip per checked condition; the full status is in the tooltip
+export const ConditionStatuses: React.FC<ConditionStatusesProps> = ({ result, conditions }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="condition-statuses">
+      {conditions.map(condition => {
+        const conditionResult = getConditionResult(result, condition);
+        const statusClass = conditionResult ? getStatusClass(conditionResult) : 'unknown';
+        const label = t(CONDITION_LABEL_KEYS[condition]);
+        const statusText = conditionResult ? getStatusText(conditionResult, t).replace('\n', ' ') : 'UNKNOWN';
+        return (
+          <span key={condition} className={`condition-status ${statusClass}`} title={`${label}: ${statusText}`}>
+            {label} {STATUS_MARKS[statusClass]}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
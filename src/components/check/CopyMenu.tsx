@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { COPY_FORMATS, COPY_FORMAT_LABEL_KEYS, CopyFormat } from '../../utils/resultClipboard';
+import './ExportMenu.css';
+
+interface CopyMenuProps {
+  disabled?: boolean;
+  onCopy: (format: CopyFormat) => void;
+}
+
+// Same popover as the export menu
+export const CopyMenu: React.FC<CopyMenuProps> = ({ disabled = false, onCopy }) => {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  return (
+    <div className="export-menu" ref={menuRef}>
+      <button
+        className="results-action-btn"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        title={t('copyResults')}
+      >
+        📋 ▾
+      </button>
+      {isOpen && (
+        <div className="export-menu-popover">
+          {COPY_FORMATS.map((format, index) => (
+            <React.Fragment key={format}>
+              {/* Plain ASIN lists after the table formats */}
+              {index === 3 && <div className="export-menu-divider" />}
+              <button
+                className="export-menu-item"
+                onClick={() => {
+                  setIsOpen(false);
+                  onCopy(format);
+                }}
+              >
+                {t(COPY_FORMAT_LABEL_KEYS[format])}
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
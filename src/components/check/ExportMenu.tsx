@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { ExportTemplate } from '../../types/exportTemplate';
+import { getExportTemplates } from '../../utils/exportTemplates';
+import './ExportMenu.css';
+
+interface ExportMenuProps {
+  disabled?: boolean;
+  onExportDefault: () => void;
+  onExportTemplate: (template: ExportTemplate) => void;
+  onManageTemplates: () => void;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  disabled = false,
+  onExportDefault,
+  onExportTemplate,
+  onManageTemplates
+}) => {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+  const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Re-read on open so templates edited meanwhile show up
+  useEffect(() => {
+    if (!isOpen) return;
+    getExportTemplates().then(setTemplates);
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const choose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div className="export-menu" ref={menuRef}>
+      <button
+        className="results-action-btn"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+      >
+        📥 {t('export')} ▾
+      </button>
+      {isOpen && (
+        <div className="export-menu-popover">
+          <button className="export-menu-item" onClick={() => choose(onExportDefault)}>
+            {t('defaultCsv')}
+          </button>
+          {templates.map(template => (
+            <button
+              key={template.id}
+              className="export-menu-item"
+              onClick={() => choose(() => onExportTemplate(template))}
+            >
+              {template.name}
+            </button>
+          ))}
+          <div className="export-menu-divider" />
+          <button className="export-menu-item muted" onClick={() => choose(onManageTemplates)}>
+            ⚙️ {t('manageExportTemplates')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useModal } from '../../contexts/ModalContext';
+import {
+  ExportColumn,
+  ExportDateFormat,
+  ExportDelimiter,
+  ExportStatusFormat,
+  ExportTemplate
+} from '../../types/exportTemplate';
+import {
+  EXPORT_COLUMNS,
+  EXPORT_COLUMN_LABEL_KEYS,
+  EXPORT_DATE_FORMATS,
+  EXPORT_DATE_FORMAT_LABEL_KEYS,
+  EXPORT_DELIMITERS,
+  EXPORT_DELIMITER_LABEL_KEYS,
+  EXPORT_STATUS_FORMATS,
+  EXPORT_STATUS_FORMAT_LABEL_KEYS,
+  createExportTemplate,
+  deleteExportTemplate,
+  getDefaultColumnHeader,
+  getExportTemplates,
+  saveExportTemplate
+} from '../../utils/exportTemplates';
+import './ExportTemplatesDialog.css';
+
+interface ExportTemplatesDialogProps {
+  onClose: () => void;
+}
+
+export const ExportTemplatesDialog: React.FC<ExportTemplatesDialogProps> = ({ onClose }) => {
+  const { t, currentLanguage } = useLanguage();
+  const { showToast } = useToast();
+  const { showModal } = useModal();
+  const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const [draft, setDraft] = useState<ExportTemplate | null>(null);
+
+  useEffect(() => {
+    getExportTemplates().then(saved => {
+      setTemplates(saved);
+      setDraft(saved[0] || createExportTemplate(t('newExportTemplate')));
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  if (!draft) return null;
+
+  const isSaved = templates.some(template => template.id === draft.id);
+  const selectedColumns = draft.columns.map(item => item.column);
+  const unusedColumns = EXPORT_COLUMNS.filter(column => !selectedColumns.includes(column));
+
+  const updateDraft = (changes: Partial<ExportTemplate>) => {
+    setDraft({ ...draft, ...changes });
+  };
+
+  const toggleColumn = (column: ExportColumn) => {
+    updateDraft({
+      columns: selectedColumns.includes(column)
+        ? draft.columns.filter(item => item.column !== column)
+        : [...draft.columns, { column }]
+    });
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const columns = [...draft.columns];
+    const [moved] = columns.splice(index, 1);
+    columns.splice(index + offset, 0, moved);
+    updateDraft({ columns });
+  };
+
+  const renameColumn = (index: number, header: string) => {
+    updateDraft({
+      columns: draft.columns.map((item, itemIndex) => (itemIndex === index ? { ...item, header: header || undefined } : item))
+    });
+  };
+
+  const handleSelectTemplate = (id: string) => {
+    setDraft(templates.find(template => template.id === id) || createExportTemplate(t('newExportTemplate')));
+  };
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+    if (!name) {
+      showToast(t('exportTemplateNameRequired'), 'error');
+      return;
+    }
+    if (draft.columns.length === 0) {
+      showToast(t('exportTemplateColumnsRequired'), 'error');
+      return;
+    }
+
+    try {
+      const template = { ...draft, name };
+      await saveExportTemplate(template);
+      setTemplates(await getExportTemplates());
+      setDraft(template);
+      showToast(t('exportTemplateSaved'), 'success');
+    } catch (error) {
+      console.error('Error saving export template:', error);
+      showToast(t('failedToSaveExportTemplate'), 'error');
+    }
+  };
+
+  const handleDelete = () => {
+    showModal({
+      title: t('deleteExportTemplate'),
+      message: t('areYouSureDeleteExportTemplate').replace('{name}', draft.name),
+      onConfirm: async () => {
+        try {
+          await deleteExportTemplate(draft.id);
+          const remaining = await getExportTemplates();
+          setTemplates(remaining);
+          setDraft(remaining[0] || createExportTemplate(t('newExportTemplate')));
+        } catch (error) {
+          console.error('Error deleting export template:', error);
+          showToast(t('failedToSaveExportTemplate'), 'error');
+        }
+      },
+      isDestructive: true,
+      confirmText: t('delete'),
+      cancelText: t('cancel')
+    });
+  };
+
+  return (
+    <div
+      className="export-templates-overlay"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="export-templates-dialog">
+        <div className="export-templates-header">
+          <h3 className="export-templates-title">{t('exportTemplates')}</h3>
+          <button className="export-templates-close" onClick={onClose}>
+            <span>×</span>
+          </button>
+        </div>
+
+        <div className="export-templates-body">
+          <div className="export-templates-row">
+            <select
+              className="export-templates-select"
+              value={isSaved ? draft.id : ''}
+              onChange={(e) => handleSelectTemplate(e.target.value)}
+            >
+              {!isSaved && <option value="">{t('newExportTemplate')}</option>}
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+            <button
+              className="results-action-btn"
+              onClick={() => setDraft(createExportTemplate(t('newExportTemplate')))}
+            >
+              + {t('newExportTemplate')}
+            </button>
+          </div>
+
+          <label className="export-templates-field">
+            <span>{t('exportTemplateName')}</span>
+            <input
+              type="text"
+              className="export-templates-input"
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+            />
+          </label>
+
+          <div className="export-templates-options">
+            <label className="export-templates-field">
+              <span>{t('exportDelimiter')}</span>
+              <select
+                className="export-templates-select"
+                value={draft.delimiter}
+                onChange={(e) => updateDraft({ delimiter: e.target.value as ExportDelimiter })}
+              >
+                {EXPORT_DELIMITERS.map(delimiter => (
+                  <option key={delimiter} value={delimiter}>{t(EXPORT_DELIMITER_LABEL_KEYS[delimiter])}</option>
+                ))}
+              </select>
+            </label>
+            <label className="export-templates-field">
+              <span>{t('exportDateFormat')}</span>
+              <select
+                className="export-templates-select"
+                value={draft.dateFormat}
+                onChange={(e) => updateDraft({ dateFormat: e.target.value as ExportDateFormat })}
+              >
+                {EXPORT_DATE_FORMATS.map(format => (
+                  <option key={format} value={format}>{t(EXPORT_DATE_FORMAT_LABEL_KEYS[format])}</option>
+                ))}
+              </select>
+            </label>
+            <label className="export-templates-field">
+              <span>{t('exportStatusFormat')}</span>
+              <select
+                className="export-templates-select"
+                value={draft.statusFormat}
+                onChange={(e) => updateDraft({ statusFormat: e.target.value as ExportStatusFormat })}
+              >
+                {EXPORT_STATUS_FORMATS.map(format => (
+                  <option key={format} value={format}>{t(EXPORT_STATUS_FORMAT_LABEL_KEYS[format])}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="export-templates-section-title">{t('exportColumns')}</div>
+          <div className="export-templates-columns">
+            {draft.columns.map((item, index) => (
+              <div key={item.column} className="export-templates-column">
+                <input type="checkbox" checked onChange={() => toggleColumn(item.column)} />
+                <span className="export-templates-column-label">{t(EXPORT_COLUMN_LABEL_KEYS[item.column])}</span>
+                <input
+                  type="text"
+                  className="export-templates-input"
+                  value={item.header || ''}
+                  placeholder={getDefaultColumnHeader(item.column, currentLanguage)}
+                  onChange={(e) => renameColumn(index, e.target.value)}
+                  title={t('exportColumnHeader')}
+                />
+                <button
+                  className="export-templates-move"
+                  onClick={() => moveColumn(index, -1)}
+                  disabled={index === 0}
+                  title={t('moveUp')}
+                >
+                  ↑
+                </button>
+                <button
+                  className="export-templates-move"
+                  onClick={() => moveColumn(index, 1)}
+                  disabled={index === draft.columns.length - 1}
+                  title={t('moveDown')}
+                >
+                  ↓
+                </button>
+              </div>
+            ))}
+            {unusedColumns.map(column => (
+              <div key={column} className="export-templates-column unused">
+                <input type="checkbox" checked={false} onChange={() => toggleColumn(column)} />
+                <span className="export-templates-column-label">{t(EXPORT_COLUMN_LABEL_KEYS[column])}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="export-templates-footer">
+          {isSaved && (
+            <button className="results-action-btn" onClick={handleDelete}>
+              🗑️ {t('delete')}
+            </button>
+          )}
+          <button className="export-templates-save" onClick={handleSave}>
+            {t('save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useToast } from '../../contexts/ToastContext';
+import {
+  ASIN_IMPORT_ACCEPT,
+  ImportedTable,
+  detectAsinColumn,
+  readAsinFile,
+  summarizeColumn
+} from '../../utils/asinImport';
+import './FileImport.css';
+
+interface FileImportProps {
+  disabled?: boolean;
+  onImport: (asins: string[], replace: boolean) => void;
+}
+
+export const FileImport: React.FC<FileImportProps> = ({ disabled = false, onImport }) => {
+  const { t } = useLanguage();
+  const { showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [table, setTable] = useState<ImportedTable | null>(null);
+  const [columnIndex, setColumnIndex] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+
+  const summary = table ? summarizeColumn(table, columnIndex) : null;
+
+  const handleFile = async (file: File) => {
+    try {
+      setIsReading(true);
+      const imported = await readAsinFile(file);
+      if (imported.rows.length === 0) {
+        showToast(t('importFileEmpty'), 'error');
+        return;
+      }
+      setTable(imported);
+      setColumnIndex(detectAsinColumn(imported));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      showToast(t('importFileFailed'), 'error');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      handleFile(file);
+    }
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (!disabled) {
+      setIsDragging(true);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file && !disabled) {
+      handleFile(file);
+    }
+  };
+
+  const handleConfirm = (replace: boolean) => {
+    if (!summary || summary.asins.length === 0) {
+      showToast(t('noValidAsinsInColumn'), 'error');
+      return;
+    }
+    onImport(summary.asins, replace);
+    setTable(null);
+  };
+
+  if (table && summary) {
+    return (
+      <div className="file-import-preview">
+        <div className="file-import-header">
+          <span className="file-import-name">📄 {table.fileName}</span>
+          <button className="file-import-close" onClick={() => setTable(null)}>×</button>
+        </div>
+
+        {table.headers.length > 1 && (
+          <div className="file-import-column">
+            <label htmlFor="importColumn" className="file-import-label">{t('asinColumn')}</label>
+            <select
+              id="importColumn"
+              className="file-import-select"
+              value={columnIndex}
+              onChange={(e) => setColumnIndex(Number(e.target.value))}
+            >
+              {table.headers.map((header, index) => (
+                <option key={index} value={index}>{header}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="file-import-stats">
+          <span className="stat-success">✅ {summary.valid} {t('importValid')}</span>
+          <span className="stat-error">❌ {summary.invalid} {t('importInvalid')}</span>
+          <span className="stat-warning">♻️ {summary.duplicates} {t('importDuplicates')}</span>
+        </div>
+
+        <div className="file-import-actions">
+          <button
+            className="results-action-btn"
+            onClick={() => handleConfirm(true)}
+            disabled={summary.valid === 0}
+          >
+            {t('replaceInput')}
+          </button>
+          <button
+            className="results-action-btn"
+            onClick={() => handleConfirm(false)}
+            disabled={summary.valid === 0}
+          >
+            {t('appendToInput')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`file-import-dropzone ${isDragging ? 'dragging' : ''} ${disabled ? 'disabled' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      onClick={() => !disabled && fileInputRef.current?.click()}
+    >
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ASIN_IMPORT_ACCEPT}
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+      />
+      <span className="file-import-text">
+        {isReading ? t('readingFile') : `📄 ${t('importDropzone')}`}
+      </span>
+    </div>
+  );
+};
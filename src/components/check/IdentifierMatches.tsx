@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { IdentifierMatch } from '../../types/check';
+import './IdentifierMatches.css';
+
+interface IdentifierMatchesProps {
+  matches: IdentifierMatch[];
+  disabled?: boolean;
+  onConfirm: (identifiers: Record<string, string[]>) => void; // chosen ASIN -> source codes
+  onClose: () => void;
+}
+
+const selectionKey = (identifier: string, asin: string) => `${identifier}:${asin}`;
+
+// Every candidate starts selected; one-to-many codes can be narrowed down by hand
+const selectAll = (matches: IdentifierMatch[]) => {
+  return new Set(matches.flatMap(match => match.candidates.map(candidate => selectionKey(match.identifier, candidate.asin))));
+};
+
+export const IdentifierMatches: React.FC<IdentifierMatchesProps> = ({ matches, disabled = false, onConfirm, onClose }) => {
+  const { t } = useLanguage();
+  const [selected, setSelected] = useState<Set<string>>(() => selectAll(matches));
+
+  const matched = matches.filter(match => match.candidates.length > 0);
+  const unmatched = matches.filter(match => match.candidates.length === 0);
+
+  const toggleCandidate = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    // An ASIN reached through several codes is checked once and keeps them all
+    const identifiers: Record<string, string[]> = {};
+    matched.forEach(match => {
+      match.candidates.forEach(candidate => {
+        if (selected.has(selectionKey(match.identifier, candidate.asin))) {
+          identifiers[candidate.asin] = [...(identifiers[candidate.asin] || []), match.identifier];
+        }
+      });
+    });
+    onConfirm(identifiers);
+  };
+
+  const selectedCount = new Set(
+    matched.flatMap(match => match.candidates
+      .filter(candidate => selected.has(selectionKey(match.identifier, candidate.asin)))
+      .map(candidate => candidate.asin))
+  ).size;
+
+  return (
+    <div className="identifier-matches">
+      <div className="identifier-matches-header">
+        <span className="identifier-matches-title">
+          {t('identifierMatchesTitle')
+            .replace('{matched}', matched.length.toString())
+            .replace('{total}', matches.length.toString())}
+        </span>
+        <button className="identifier-matches-close" onClick={onClose}>×</button>
+      </div>
+
+      <div className="identifier-matches-list">
+        {matched.map(match => (
+          <div key={match.identifier} className="identifier-match">
+            <div className="identifier-match-code">
+              <span className="identifier-type">{match.identifierType}</span>
+              {match.identifier}
+              {match.candidates.length > 1 && (
+                <span className="identifier-match-count">
+                  {t('identifierMultipleMatches').replace('{count}', match.candidates.length.toString())}
+                </span>
+              )}
+            </div>
+            {match.candidates.map(candidate => {
+              const key = selectionKey(match.identifier, candidate.asin);
+              return (
+                <label key={key} className="identifier-candidate">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(key)}
+                    onChange={() => toggleCandidate(key)}
+                  />
+                  {candidate.imageUrl && (
+                    <img src={candidate.imageUrl} alt="" className="identifier-candidate-image" />
+                  )}
+                  <span className="identifier-candidate-info">
+                    <span className="identifier-candidate-asin">{candidate.asin}</span>
+                    <span className="identifier-candidate-title">
+                      {[candidate.brand, candidate.title].filter(Boolean).join(' · ') || 'N/A'}
+                    </span>
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {unmatched.length > 0 && (
+        <div className="identifier-unmatched">
+          {t('identifierNoMatch').replace('{count}', unmatched.length.toString())}{' '}
+          {unmatched.map(match => match.identifier).join(', ')}
+        </div>
+      )}
+
+      <div className="identifier-matches-actions">
+        <button
+          className="results-action-btn"
+          onClick={handleConfirm}
+          disabled={disabled || selectedCount === 0}
+        >
+          🔍 {t('checkSelectedAsins').replace('{count}', selectedCount.toString())}
+        </button>
+      </div>
+    </div>
+  );
+};
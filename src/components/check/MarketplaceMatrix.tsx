@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { CheckResult, StatusClass } from '../../types/check';
+import { buildMarketplaceMatrix } from '../../utils/marketplaceMatrix';
+import { getMarketplaceDomain } from '../../utils/marketplaces';
+import { getProductTitle, getStatusClass, getStatusText } from '../../utils/resultStatus';
+import { VirtualList } from '../common/VirtualList';
+import './MarketplaceMatrix.css';
+
+const ROW_HEIGHT = 32;
+const ASIN_COLUMN_WIDTH = 110;
+const MARKETPLACE_COLUMN_WIDTH = 56;
+
+const STATUS_MARKS: Record<StatusClass, string> = {
+  success: '✓',
+  warning: '!',
+  error: '✗',
+  'not-found': '–'
+};
+
+interface MarketplaceMatrixProps {
+  id?: string;
+  results: CheckResult[];
+  marketplaces: string[];
+  onOpenDetails?: (result: CheckResult) => void;
+  children?: React.ReactNode;
+}
+
+// One row per ASIN, one column per marketplace; cells open the result's details
+export const MarketplaceMatrix: React.FC<MarketplaceMatrixProps> = ({
+  id,
+  results,
+  marketplaces,
+  onOpenDetails,
+  children
+}) => {
+  const { t } = useLanguage();
+  const rows = useMemo(() => buildMarketplaceMatrix(results), [results]);
+  const contentWidth = ASIN_COLUMN_WIDTH + marketplaces.length * MARKETPLACE_COLUMN_WIDTH;
+
+  const header = (
+    <div className="marketplace-matrix-header" style={{ minWidth: contentWidth }}>
+      <div className="marketplace-matrix-cell asin" style={{ width: ASIN_COLUMN_WIDTH }}>
+        {t('columnAsin')}
+      </div>
+      {marketplaces.map(code => (
+        <div
+          key={code}
+          className="marketplace-matrix-cell"
+          style={{ width: MARKETPLACE_COLUMN_WIDTH }}
+          title={getMarketplaceDomain(code)}
+        >
+          {code}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <VirtualList
+      id={id}
+      className="results-container marketplace-matrix"
+      items={rows}
+      itemHeight={ROW_HEIGHT}
+      overscan={10}
+      header={header}
+      contentWidth={contentWidth}
+      getKey={(row) => row.asin}
+      renderItem={(row) => (
+        <div className="marketplace-matrix-row">
+          <div
+            className="marketplace-matrix-cell asin"
+            style={{ width: ASIN_COLUMN_WIDTH }}
+            title={getProductTitle(row.result)}
+          >
+            {row.asin}
+          </div>
+          {marketplaces.map(code => {
+            const cell = row.cells[code];
+            if (!cell) {
+              // Not checked in this marketplace yet
+              return (
+                <div key={code} className="marketplace-matrix-cell pending" style={{ width: MARKETPLACE_COLUMN_WIDTH }}>
+                  …
+                </div>
+              );
+            }
+            const statusClass = getStatusClass(cell);
+            return (
+              <div key={code} className="marketplace-matrix-cell" style={{ width: MARKETPLACE_COLUMN_WIDTH }}>
+                <button
+                  className={`marketplace-matrix-status ${statusClass}`}
+                  title={`${getMarketplaceDomain(code)}: ${getStatusText(cell, t).replace('\n', ' ')}`}
+                  onClick={() => onOpenDetails?.(cell)}
+                >
+                  {STATUS_MARKS[statusClass]}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    >
+      {children}
+    </VirtualList>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { MARKETPLACES, getMarketplaceDomain } from '../../utils/marketplaces';
+import './MarketplacePicker.css';
+
+interface MarketplacePickerProps {
+  value: string[]; // empty checks the Settings marketplace only
+  defaultMarketplace: string; // from Settings
+  disabled?: boolean;
+  onChange: (marketplaces: string[]) => void;
+}
+
+export const MarketplacePicker: React.FC<MarketplacePickerProps> = ({
+  value,
+  defaultMarketplace,
+  disabled = false,
+  onChange
+}) => {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const selected = value.length > 0 ? value : (defaultMarketplace ? [defaultMarketplace] : []);
+
+  // Keeps the marketplace list order; dropping back to the Settings marketplace clears the pick
+  const toggleMarketplace = (code: string) => {
+    const next = selected.includes(code)
+      ? selected.filter(item => item !== code)
+      : [...selected, code];
+    const ordered = MARKETPLACES.map(marketplace => marketplace.code).filter(item => next.includes(item));
+    onChange(ordered.length === 1 && ordered[0] === defaultMarketplace ? [] : ordered);
+  };
+
+  return (
+    <div className="marketplace-picker">
+      <div className="marketplace-picker-summary">
+        <span className="marketplace-picker-label">{t('marketplaces')}</span>
+        {selected.map(code => (
+          <span key={code} className="marketplace-picker-selected" title={getMarketplaceDomain(code)}>
+            {code}
+          </span>
+        ))}
+        <button
+          className="marketplace-picker-toggle"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled}
+        >
+          {isOpen ? t('done') : t('edit')}
+        </button>
+      </div>
+      {isOpen && (
+        <div className="marketplace-picker-options">
+          {MARKETPLACES.map(marketplace => (
+            <button
+              key={marketplace.code}
+              className={`marketplace-chip ${selected.includes(marketplace.code) ? 'active' : ''}`}
+              onClick={() => toggleMarketplace(marketplace.code)}
+              disabled={disabled}
+              title={marketplace.domain}
+            >
+              {marketplace.code}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
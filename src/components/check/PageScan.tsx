@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useToast } from '../../contexts/ToastContext';
+import { PAGE_ASIN_SOURCE_LABEL_KEYS, PageScanResult, scanActiveTab } from '../../utils/pageScan';
+import './FileImport.css';
+import './PageScan.css';
+
+interface PageScanProps {
+  disabled?: boolean;
+  onImport: (asins: string[], replace: boolean) => void;
+}
+
+export const PageScan: React.FC<PageScanProps> = ({ disabled = false, onImport }) => {
+  const { t } = useLanguage();
+  const { showToast } = useToast();
+  const [scan, setScan] = useState<PageScanResult | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+
+  const handleScan = async () => {
+    try {
+      setIsScanning(true);
+      const result = await scanActiveTab();
+      if (result.asins.length === 0) {
+        showToast(t('noAsinsOnPage'), 'info');
+        return;
+      }
+      setScan(result);
+    } catch (error) {
+      console.error('Error scanning page:', error);
+      showToast(t('pageScanFailed'), 'error');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleConfirm = (replace: boolean) => {
+    if (!scan) return;
+    onImport(scan.asins.map(item => item.asin), replace);
+    setScan(null);
+  };
+
+  if (scan) {
+    return (
+      <div className="file-import-preview">
+        <div className="file-import-header">
+          <span className="file-import-name" title={scan.url}>🌐 {scan.title || scan.url}</span>
+          <button className="file-import-close" onClick={() => setScan(null)}>×</button>
+        </div>
+
+        <div className="file-import-stats">
+          <span className="stat-success">
+            ✅ {t('pageAsinsFound').replace('{count}', scan.asins.length.toString())}
+          </span>
+        </div>
+
+        <div className="page-scan-list">
+          {scan.asins.map(item => (
+            <div key={item.asin} className="page-scan-item">
+              <span className="page-scan-asin">{item.asin}</span>
+              <span className={`page-scan-source ${item.source}`}>{t(PAGE_ASIN_SOURCE_LABEL_KEYS[item.source])}</span>
+              <span className="page-scan-context" title={item.context}>
+                {item.context}
+                {item.occurrences > 1 && ` (×${item.occurrences})`}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="file-import-actions">
+          <button className="results-action-btn" onClick={() => handleConfirm(true)}>
+            {t('replaceInput')}
+          </button>
+          <button className="results-action-btn" onClick={() => handleConfirm(false)}>
+            {t('appendToInput')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      className={`page-scan-btn ${disabled ? 'disabled' : ''}`}
+      onClick={handleScan}
+      disabled={disabled || isScanning}
+    >
+      {isScanning ? t('scanningPage') : `🌐 ${t('checkPageAsins')}`}
+    </button>
+  );
+};
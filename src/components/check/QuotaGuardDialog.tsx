@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getRecentlyCheckedAsins } from '../../utils/checkHistory';
+import { saveQuotaPreview } from '../../utils/checkPreferences';
+import '../common/Modal.css';
+import './QuotaGuardDialog.css';
+
+export const RECENT_CHECK_DAYS = 7;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+interface QuotaGuardDialogProps {
+  asins: string[]; // unique ASINs of the run
+  checksPerAsin: number; // marketplaces per ASIN
+  remaining: number; // checks left this month
+  marketplace?: string; // only history from this marketplace counts as recent
+  onConfirm: (asins: string[]) => void;
+  onUpgrade: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Shown before a run with the checks it needs and those left this month. The
+ * run can drop ASINs checked recently, be cut to what fits, or be upgraded.
+ */
+export const QuotaGuardDialog: React.FC<QuotaGuardDialogProps> = ({
+  asins,
+  checksPerAsin,
+  remaining,
+  marketplace,
+  onConfirm,
+  onUpgrade,
+  onClose
+}) => {
+  const { t } = useLanguage();
+  const [queue, setQueue] = useState(asins);
+  const [recentAsins, setRecentAsins] = useState<Set<string>>(new Set());
+  const [skipPreview, setSkipPreview] = useState(false);
+
+  useEffect(() => {
+    getRecentlyCheckedAsins(Date.now() - RECENT_CHECK_DAYS * DAY, marketplace)
+      .then(setRecentAsins)
+      .catch(error => console.error('Failed to load recently checked ASINs:', error));
+  }, [marketplace]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const checksNeeded = queue.length * checksPerAsin;
+  const fitCount = Math.min(queue.length, Math.floor(remaining / checksPerAsin));
+  const recentCount = queue.filter(asin => recentAsins.has(asin)).length;
+  const fits = checksNeeded <= remaining;
+
+  const handleStart = () => {
+    if (skipPreview) saveQuotaPreview(false);
+    onConfirm(queue);
+  };
+
+  return (
+    <div
+      className="modal-overlay"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="modal-container">
+        <div className="modal-header">
+          <h3 className="modal-title">{t(fits ? 'quotaPreviewTitle' : 'quotaGuardTitle')}</h3>
+          <button className="modal-close" onClick={onClose}>
+            <span>×</span>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <p className="modal-message">
+            {t('quotaGuardSummary')
+              .replace('{asins}', queue.length.toString())
+              .replace('{checks}', checksNeeded.toString())
+              .replace('{remaining}', remaining.toString())}
+          </p>
+          <div className="quota-guard-options">
+            {recentCount > 0 && (
+              <button
+                className="quota-guard-option"
+                onClick={() => setQueue(queue.filter(asin => !recentAsins.has(asin)))}
+              >
+                ⏭️ {t('quotaGuardSkipRecent')
+                  .replace('{count}', recentCount.toString())
+                  .replace('{days}', RECENT_CHECK_DAYS.toString())}
+              </button>
+            )}
+            {!fits && fitCount > 0 && (
+              <button className="quota-guard-option" onClick={() => onConfirm(queue.slice(0, fitCount))}>
+                ✂️ {t('quotaGuardTrim').replace('{count}', fitCount.toString())}
+              </button>
+            )}
+            <button className="quota-guard-option" onClick={onUpgrade}>
+              ⭐ {t('quotaGuardUpgrade')}
+            </button>
+          </div>
+          {fits && (
+            <label className="quota-guard-skip">
+              <input type="checkbox" checked={skipPreview} onChange={(e) => setSkipPreview(e.target.checked)} />
+              {t('quotaPreviewSkip')}
+            </label>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button className="modal-btn modal-btn-secondary" onClick={onClose}>
+            {t('cancel')}
+          </button>
+          {fits && queue.length > 0 && (
+            <button className="modal-btn modal-btn-primary" onClick={handleStart}>
+              {t('quotaGuardStart').replace('{count}', queue.length.toString())}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { CheckResult, ItemCondition } from '../../types/check';
+import { isImageLoaded, queueImageLoad } from '../../utils/imageQueue';
+import {
+  PLACEHOLDER_IMAGE,
+  getProductBrand,
+  getProductImage,
+  getProductTitle,
+  getStatusClass,
+  getStatusText
+} from '../../utils/resultStatus';
+import { ConditionStatuses } from './ConditionStatuses';
+
+// Fixed card height (two title lines) plus the gap, for windowed lists
+export const RESULT_ROW_HEIGHT = 116;
+
+interface ResultCardProps {
+  result: CheckResult;
+  animate?: boolean; // slide in when mounted (new arrivals only)
+  conditions?: ItemCondition[]; // conditions the run was checked for
+  onClick?: () => void;
+}
+
+// Shows the placeholder until the image's turn in the load queue
+const useQueuedImage = (src: string) => {
+  const [isLoaded, setIsLoaded] = useState(() => src === PLACEHOLDER_IMAGE || isImageLoaded(src));
+
+  useEffect(() => {
+    if (src === PLACEHOLDER_IMAGE || isImageLoaded(src)) {
+      setIsLoaded(true);
+      return;
+    }
+    setIsLoaded(false);
+    return queueImageLoad(src, setIsLoaded);
+  }, [src]);
+
+  return isLoaded ? src : PLACEHOLDER_IMAGE;
+};
+
+// Styles live in Check.css next to the rest of the results section
+export const ResultCard: React.FC<ResultCardProps> = ({ result, animate = true, conditions = [], onClick }) => {
+  const { t } = useLanguage();
+  const productTitle = getProductTitle(result);
+  const statusClass = getStatusClass(result);
+  const imageSrc = useQueuedImage(getProductImage(result));
+
+  return (
+    <div
+      className={`result-card ${statusClass} ${animate ? '' : 'static'} ${onClick ? 'clickable' : ''}`}
+      onClick={onClick}
+    >
+      <img src={imageSrc} alt={productTitle} className="result-image" />
+      <div className="result-info">
+        <div className="result-details">
+          <div className="result-asin">
+            {result.asin}
+            {result.identifier && <span className="result-identifier">{result.identifier}</span>}
+          </div>
+          <div className="result-title">{productTitle}</div>
+          <div className="result-brand">{getProductBrand(result)}</div>
+        </div>
+        <div className="result-status">
+          <div className={`status-badge ${statusClass}`}>
+            {getStatusText(result, t)}
+          </div>
+          {conditions.length > 0 && <ConditionStatuses result={result} conditions={conditions} />}
+        </div>
+      </div>
+    </div>
+  );
+};
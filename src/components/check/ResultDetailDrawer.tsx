@@ -0,0 +1,178 @@
+import React, { useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useToast } from '../../contexts/ToastContext';
+import { CheckResult, ItemCondition } from '../../types/check';
+import { CONDITION_LABEL_KEYS, getConditionResult } from '../../utils/conditions';
+import { getMarketplaceDomain } from '../../utils/marketplaces';
+import { formatConditionType, getApprovalUrl, getReasonLabel } from '../../utils/restrictions';
+import {
+  getProductBrand,
+  getProductImage,
+  getProductTitle,
+  getStatusClass,
+  getStatusText
+} from '../../utils/resultStatus';
+import './ResultDetailDrawer.css';
+
+interface ResultDetailDrawerProps {
+  result: CheckResult;
+  marketplace?: string; // used when the result wasn't stamped with one
+  conditions?: ItemCondition[];
+  onClose: () => void;
+}
+
+export const ResultDetailDrawer: React.FC<ResultDetailDrawerProps> = ({ result, marketplace, conditions = [], onClose }) => {
+  const { t, currentLanguage } = useLanguage();
+  const { showToast } = useToast();
+
+  const marketplaceCode = result.marketplace || marketplace;
+  const statusClass = getStatusClass(result);
+  const approvalUrl = getApprovalUrl(result, marketplaceCode);
+  const restrictions = result.restrictions || [];
+  const rawJson = JSON.stringify(result, null, 2);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const handleCopyJson = async () => {
+    try {
+      await navigator.clipboard.writeText(rawJson);
+      showToast(t('jsonCopied'), 'success');
+    } catch (error) {
+      console.error('Error copying result JSON:', error);
+      showToast(t('failedToCopy'), 'error');
+    }
+  };
+
+  return (
+    <div
+      className="result-drawer-overlay"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="result-drawer">
+        <div className="result-drawer-header">
+          <img src={getProductImage(result)} alt={getProductTitle(result)} className="result-image" />
+          <div className="result-drawer-heading">
+            <div className="result-asin">
+              {result.asin}
+              {result.identifier && <span className="result-identifier">{result.identifier}</span>}
+            </div>
+            <div className="result-drawer-title">{getProductTitle(result)}</div>
+            <div className="result-brand">{getProductBrand(result)}</div>
+          </div>
+          <button className="result-drawer-close" onClick={onClose}>
+            <span>×</span>
+          </button>
+        </div>
+
+        <div className="result-drawer-body">
+          <div className="result-drawer-meta">
+            <span className={`status-badge ${statusClass}`}>{getStatusText(result, t).replace('\n', ' ')}</span>
+            {result.detailedStatus && <span className="result-drawer-chip">{result.detailedStatus}</span>}
+            {marketplaceCode && <span className="result-drawer-chip">{getMarketplaceDomain(marketplaceCode)}</span>}
+            {result.checkedAt && (
+              <span className="result-drawer-chip">
+                {new Date(result.checkedAt).toLocaleString(currentLanguage === 'tr' ? 'tr-TR' : 'en-US')}
+              </span>
+            )}
+          </div>
+
+          {result.error && <div className="result-drawer-error">{result.error}</div>}
+
+          <div className="result-drawer-links">
+            {approvalUrl && (
+              <a className="results-action-btn" href={approvalUrl} target="_blank" rel="noopener noreferrer">
+                📝 {t('requestApproval')}
+              </a>
+            )}
+            {marketplaceCode && (
+              <a
+                className="results-action-btn"
+                href={`https://www.${getMarketplaceDomain(marketplaceCode)}/dp/${result.asin}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                🛒 {t('viewOnAmazon')}
+              </a>
+            )}
+          </div>
+
+          {conditions.length > 0 && (
+            <>
+              <h4 className="result-drawer-section-title">{t('conditions')}</h4>
+              <div className="result-drawer-conditions">
+                {conditions.map(condition => {
+                  const conditionResult = getConditionResult(result, condition);
+                  return (
+                    <div key={condition} className="result-drawer-condition-row">
+                      <span>{t(CONDITION_LABEL_KEYS[condition])}</span>
+                      {conditionResult ? (
+                        <span className={`status-badge ${getStatusClass(conditionResult)}`}>
+                          {getStatusText(conditionResult, t).replace('\n', ' ')}
+                        </span>
+                      ) : (
+                        <span className="result-drawer-empty">{t('conditionUnknown')}</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          <h4 className="result-drawer-section-title">{t('listingRestrictions')}</h4>
+          {restrictions.length === 0 && (
+            <p className="result-drawer-empty">
+              {result.sellable ? t('noListingRestrictions') : t('noRestrictionDetails')}
+            </p>
+          )}
+          {restrictions.map((restriction, index) => (
+            <div key={`${restriction.conditionType || 'any'}-${index}`} className="result-drawer-restriction">
+              <div className="result-drawer-condition">
+                {formatConditionType(restriction.conditionType) || t('allConditions')}
+              </div>
+              {(restriction.reasons || []).map((reason, reasonIndex) => (
+                <div key={reasonIndex} className="result-drawer-reason">
+                  {reason.reasonCode && (
+                    <span className="result-drawer-reason-code" title={reason.reasonCode}>
+                      {getReasonLabel(reason, t)}
+                    </span>
+                  )}
+                  <span className="result-drawer-reason-message">{reason.message}</span>
+                  {(reason.links || []).map(link => (
+                    <a
+                      key={link.resource}
+                      className="result-drawer-reason-link"
+                      href={link.resource}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      {link.title || link.resource}
+                    </a>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <details className="result-drawer-raw">
+            <summary>{t('rawJson')}</summary>
+            <button className="results-action-btn" onClick={handleCopyJson}>
+              📋 {t('copy')}
+            </button>
+            <pre>{rawJson}</pre>
+          </details>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useToast } from '../../contexts/ToastContext';
+import { Watchlist } from '../../types/watchlist';
+import { sendToBackground } from '../../utils/backgroundMessaging';
+import {
+  addAsinsToWatchlist,
+  addWatchlist,
+  createWatchlist,
+  getWatchlists,
+  onWatchlistsChanged
+} from '../../utils/watchlists';
+import './ResultsBulkBar.css';
+
+interface ResultsBulkBarProps {
+  selectedAsins: string[];
+  disabled?: boolean; // a run is in progress
+  onCopy: () => void;
+  onRecheck: () => void;
+  onExport: () => void;
+  onClearSelection: () => void;
+}
+
+const NEW_WATCHLIST = '__new__';
+
+export const ResultsBulkBar: React.FC<ResultsBulkBarProps> = ({
+  selectedAsins,
+  disabled = false,
+  onCopy,
+  onRecheck,
+  onExport,
+  onClearSelection
+}) => {
+  const { t, currentLanguage } = useLanguage();
+  const { showToast } = useToast();
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+
+  useEffect(() => {
+    getWatchlists().then(setWatchlists);
+    return onWatchlistsChanged(setWatchlists);
+  }, []);
+
+  const handleAddToWatchlist = async (target: string) => {
+    if (!target) return;
+
+    try {
+      if (target === NEW_WATCHLIST) {
+        const date = new Date().toLocaleDateString(currentLanguage === 'tr' ? 'tr-TR' : 'en-US');
+        await addWatchlist(createWatchlist(t('selectedResultsWatchlistName').replace('{date}', date), selectedAsins));
+        showToast(t('watchlistCreated'), 'success');
+      } else {
+        const added = await addAsinsToWatchlist(target, selectedAsins);
+        showToast(t('asinsAddedToWatchlist').replace('{count}', added.toString()), 'success');
+      }
+      // New lists and grown lists both need their alarm (re)scheduled
+      sendToBackground({ type: 'SYNC_WATCHLISTS' }).catch(error => {
+        console.error('Error syncing watchlist alarms:', error);
+      });
+    } catch (error) {
+      console.error('Error adding ASINs to watchlist:', error);
+      showToast(t('failedToSaveWatchlist'), 'error');
+    }
+  };
+
+  return (
+    <div className="results-bulk-bar">
+      <span className="results-bulk-count">
+        {t('selectedCount').replace('{count}', selectedAsins.length.toString())}
+      </span>
+      <button className="results-action-btn" onClick={onCopy}>
+        📋 {t('copy')}
+      </button>
+      <button className="results-action-btn" onClick={onRecheck} disabled={disabled}>
+        🔁 {t('recheck')}
+      </button>
+      <select
+        className="results-bulk-select"
+        value=""
+        onChange={(e) => handleAddToWatchlist(e.target.value)}
+      >
+        <option value="">👀 {t('addToWatchlist')}</option>
+        {watchlists.map(watchlist => (
+          <option key={watchlist.id} value={watchlist.id}>{watchlist.name}</option>
+        ))}
+        <option value={NEW_WATCHLIST}>➕ {t('newWatchlist')}</option>
+      </select>
+      <button className="results-action-btn" onClick={onExport}>
+        📥 {t('export')}
+      </button>
+      <button className="results-action-btn" onClick={onClearSelection} title={t('clearSelection')}>
+        ✕
+      </button>
+    </div>
+  );
+};
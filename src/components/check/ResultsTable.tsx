@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { CheckResult, ItemCondition, ResultTableColumn } from '../../types/check';
+import { getResultTableColumnWidths, saveResultTableColumnWidths } from '../../utils/checkPreferences';
+import { getMarketplaceDomain } from '../../utils/marketplaces';
+import { getProductBrand, getProductTitle, getStatusClass, getStatusText } from '../../utils/resultStatus';
+import { VirtualList } from '../common/VirtualList';
+import { ConditionStatuses } from './ConditionStatuses';
+import './ResultsTable.css';
+
+export const RESULT_TABLE_ROW_HEIGHT = 32;
+
+const COLUMNS: ResultTableColumn[] = [
+  'asin',
+  'title',
+  'brand',
+  'status',
+  'detailedStatus',
+  'conditions',
+  'marketplace',
+  'checkedAt'
+];
+
+const DEFAULT_COLUMN_WIDTHS: Record<ResultTableColumn, number> = {
+  asin: 96,
+  title: 180,
+  brand: 100,
+  status: 90,
+  detailedStatus: 120,
+  conditions: 160,
+  marketplace: 90,
+  checkedAt: 110
+};
+
+const COLUMN_LABEL_KEYS: Record<ResultTableColumn, string> = {
+  asin: 'columnAsin',
+  title: 'columnTitle',
+  brand: 'columnBrand',
+  status: 'columnStatus',
+  detailedStatus: 'columnDetailedStatus',
+  conditions: 'columnConditions',
+  marketplace: 'columnMarketplace',
+  checkedAt: 'columnCheckedAt'
+};
+
+const MIN_COLUMN_WIDTH = 40;
+const SELECT_COLUMN_WIDTH = 28;
+
+interface ResultsTableProps {
+  id?: string;
+  results: CheckResult[];
+  selectedAsins: Set<string>;
+  onSelectionChange: (asins: Set<string>) => void;
+  marketplace?: string; // shown for results saved before they were stamped with one
+  conditions?: ItemCondition[]; // adds the per-condition column when set
+  onOpenDetails?: (result: CheckResult) => void;
+  children?: React.ReactNode;
+}
+
+interface ResizeState {
+  column: ResultTableColumn;
+  startX: number;
+  startWidth: number;
+}
+
+export const ResultsTable: React.FC<ResultsTableProps> = ({
+  id,
+  results,
+  selectedAsins,
+  onSelectionChange,
+  marketplace,
+  conditions = [],
+  onOpenDetails,
+  children
+}) => {
+  const { t, currentLanguage } = useLanguage();
+  const [widths, setWidths] = useState<Record<ResultTableColumn, number>>(DEFAULT_COLUMN_WIDTHS);
+  const [resizing, setResizing] = useState<ResizeState | null>(null);
+  const widthsRef = useRef(widths);
+  const lastClickedRef = useRef<number | null>(null);
+
+  widthsRef.current = widths;
+
+  useEffect(() => {
+    getResultTableColumnWidths().then(saved => {
+      setWidths(prev => ({ ...prev, ...saved }));
+    });
+  }, []);
+
+  // Listen on the window so the drag keeps going outside the header cell
+  useEffect(() => {
+    if (!resizing) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, resizing.startWidth + e.clientX - resizing.startX);
+      setWidths(prev => ({ ...prev, [resizing.column]: width }));
+    };
+    const handleMouseUp = () => {
+      setResizing(null);
+      saveResultTableColumnWidths(widthsRef.current);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [resizing]);
+
+  const columns = conditions.length > 0 ? COLUMNS : COLUMNS.filter(column => column !== 'conditions');
+  const contentWidth = SELECT_COLUMN_WIDTH + columns.reduce((sum, column) => sum + widths[column], 0);
+  const allSelected = results.length > 0 && results.every(result => selectedAsins.has(result.asin));
+
+  const toggleAll = () => {
+    onSelectionChange(allSelected ? new Set() : new Set(results.map(result => result.asin)));
+  };
+
+  // Shift-click selects the range from the previously clicked row
+  const toggleRow = (index: number, shiftKey: boolean) => {
+    const next = new Set(selectedAsins);
+    const asin = results[index].asin;
+    const lastClicked = lastClickedRef.current;
+
+    if (shiftKey && lastClicked !== null && lastClicked < results.length) {
+      const [from, to] = lastClicked < index ? [lastClicked, index] : [index, lastClicked];
+      results.slice(from, to + 1).forEach(result => next.add(result.asin));
+    } else if (next.has(asin)) {
+      next.delete(asin);
+    } else {
+      next.add(asin);
+    }
+
+    lastClickedRef.current = index;
+    onSelectionChange(next);
+  };
+
+  const formatCheckedAt = (timestamp?: number) => {
+    if (!timestamp) return '';
+    return new Date(timestamp).toLocaleString(currentLanguage === 'tr' ? 'tr-TR' : 'en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const renderCell = (result: CheckResult, column: ResultTableColumn) => {
+    switch (column) {
+      case 'asin':
+        return onOpenDetails ? (
+          <button
+            className="results-table-asin"
+            onClick={(e) => {
+              e.stopPropagation();
+              onOpenDetails(result);
+            }}
+          >
+            {result.asin}
+          </button>
+        ) : result.asin;
+      case 'title':
+        return getProductTitle(result);
+      case 'brand':
+        return getProductBrand(result);
+      case 'status':
+        return (
+          <span className={`status-badge ${getStatusClass(result)}`}>
+            {getStatusText(result, t).replace('\n', ' ')}
+          </span>
+        );
+      case 'detailedStatus':
+        return result.detailedStatus || '';
+      case 'conditions':
+        return <ConditionStatuses result={result} conditions={conditions} />;
+      case 'marketplace': {
+        const code = result.marketplace || marketplace;
+        return code ? getMarketplaceDomain(code) : '';
+      }
+      case 'checkedAt':
+        return formatCheckedAt(result.checkedAt);
+    }
+  };
+
+  const header = (
+    <div className="results-table-header" style={{ minWidth: contentWidth }}>
+      <div className="results-table-cell select" style={{ width: SELECT_COLUMN_WIDTH }}>
+        <input type="checkbox" checked={allSelected} onChange={toggleAll} title={t('selectAll')} />
+      </div>
+      {columns.map(column => (
+        <div key={column} className="results-table-cell" style={{ width: widths[column] }}>
+          {t(COLUMN_LABEL_KEYS[column])}
+          <span
+            className={`results-table-resizer ${resizing?.column === column ? 'active' : ''}`}
+            onMouseDown={(e) => {
+              e.preventDefault();
+              setResizing({ column, startX: e.clientX, startWidth: widths[column] });
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <VirtualList
+      id={id}
+      className={`results-container results-table ${resizing ? 'resizing' : ''}`}
+      items={results}
+      itemHeight={RESULT_TABLE_ROW_HEIGHT}
+      overscan={10}
+      header={header}
+      contentWidth={contentWidth}
+      getKey={(result) => result.asin}
+      renderItem={(result, index) => (
+        <div
+          className={`results-table-row ${getStatusClass(result)} ${selectedAsins.has(result.asin) ? 'selected' : ''}`}
+          onClick={(e) => toggleRow(index, e.shiftKey)}
+        >
+          <div className="results-table-cell select" style={{ width: SELECT_COLUMN_WIDTH }}>
+            <input type="checkbox" checked={selectedAsins.has(result.asin)} readOnly />
+          </div>
+          {columns.map(column => (
+            <div
+              key={column}
+              className={`results-table-cell ${column}`}
+              style={{ width: widths[column] }}
+              title={column === 'title' ? getProductTitle(result) : undefined}
+            >
+              {renderCell(result, column)}
+            </div>
+          ))}
+        </div>
+      )}
+    >
+      {children}
+    </VirtualList>
+  );
+};
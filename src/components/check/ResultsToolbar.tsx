@@ -0,0 +1,89 @@
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { ResultFilters, ResultSortField, StatusClass } from '../../types/check';
+import { DEFAULT_RESULT_FILTERS, STATUS_CLASSES, isFilterActive } from '../../utils/resultFilters';
+import './ResultsToolbar.css';
+
+interface ResultsToolbarProps {
+  filters: ResultFilters;
+  counts: Record<StatusClass, number>;
+  onChange: (filters: ResultFilters) => void;
+}
+
+const STATUS_ICONS: Record<StatusClass, string> = {
+  success: '✅',
+  warning: '⚠️',
+  error: '❌',
+  'not-found': '🔍'
+};
+
+const SORT_FIELDS: ResultSortField[] = ['arrival', 'input', 'status', 'brand'];
+
+const SORT_LABEL_KEYS: Record<ResultSortField, string> = {
+  arrival: 'sortArrival',
+  input: 'sortInputOrder',
+  status: 'sortStatus',
+  brand: 'sortBrand'
+};
+
+export const ResultsToolbar: React.FC<ResultsToolbarProps> = ({ filters, counts, onChange }) => {
+  const { t } = useLanguage();
+
+  const toggleStatus = (status: StatusClass) => {
+    const statuses = filters.statuses.includes(status)
+      ? filters.statuses.filter(item => item !== status)
+      : [...filters.statuses, status];
+    onChange({ ...filters, statuses });
+  };
+
+  return (
+    <div className="results-toolbar">
+      <div className="results-toolbar-row">
+        <input
+          type="text"
+          className="results-search"
+          placeholder={t('searchResults')}
+          value={filters.query}
+          onChange={(e) => onChange({ ...filters, query: e.target.value })}
+        />
+        <div className="sort-controls">
+          <select
+            className="sort-select"
+            value={filters.sortField}
+            onChange={(e) => onChange({ ...filters, sortField: e.target.value as ResultSortField })}
+          >
+            {SORT_FIELDS.map(field => (
+              <option key={field} value={field}>{t(SORT_LABEL_KEYS[field])}</option>
+            ))}
+          </select>
+          <button
+            className="sort-order-btn"
+            onClick={() => onChange({ ...filters, sortOrder: filters.sortOrder === 'asc' ? 'desc' : 'asc' })}
+            title={t('toggleSortOrder')}
+          >
+            {filters.sortOrder === 'asc' ? '↑' : '↓'}
+          </button>
+        </div>
+      </div>
+      <div className="results-toolbar-row">
+        {STATUS_CLASSES.map(status => (
+          <button
+            key={status}
+            className={`status-filter-chip ${status} ${filters.statuses.includes(status) ? 'active' : ''}`}
+            onClick={() => toggleStatus(status)}
+          >
+            {STATUS_ICONS[status]} {counts[status]}
+          </button>
+        ))}
+        {isFilterActive(filters) && (
+          <button
+            className="status-filter-clear"
+            onClick={() => onChange({ ...DEFAULT_RESULT_FILTERS, sortField: filters.sortField, sortOrder: filters.sortOrder })}
+          >
+            ✕ {t('clearFilters')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  id?: string;
+  className?: string;
+  items: T[];
+  itemHeight: number; // row height including the gap below it
+  overscan?: number;
+  getKey: (item: T, index: number) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  header?: React.ReactNode; // rendered above the rows, inside the scroll area
+  contentWidth?: number; // minimum row width, for rows wider than the list
+  children?: React.ReactNode; // rendered after the rows (e.g. an empty message)
+}
+
+// Fixed-height windowed list: only rows near the scroll position are mounted
+export function VirtualList<T>({
+  id,
+  className = '',
+  items,
+  itemHeight,
+  overscan = 5,
+  getKey,
+  renderItem,
+  header,
+  contentWidth,
+  children
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const updateHeight = () => setViewportHeight(container.clientHeight);
+    updateHeight();
+    const observer = new ResizeObserver(updateHeight);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+  const end = Math.min(items.length, Math.ceil((scrollTop + viewportHeight) / itemHeight) + overscan);
+
+  return (
+    <div
+      id={id}
+      ref={containerRef}
+      className={`virtual-list ${className}`}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      {header}
+      <div style={{ position: 'relative', height: items.length * itemHeight, minWidth: contentWidth }}>
+        {items.slice(start, end).map((item, offset) => {
+          const index = start + offset;
+          return (
+            <div
+              key={getKey(item, index)}
+              style={{ position: 'absolute', top: index * itemHeight, left: 0, right: 0, height: itemHeight }}
+            >
+              {renderItem(item, index)}
+            </div>
+          );
+        })}
+      </div>
+      {children}
+    </div>
+  );
+}
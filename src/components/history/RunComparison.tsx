@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useToast } from '../../contexts/ToastContext';
+import { RunDiff, RunDiffRow } from '../../types/check';
+import { getMarketplaceDomain } from '../../utils/marketplaces';
+import { downloadFile } from '../../utils/resultExport';
+import { getProductTitle, getStatusClass, getStatusText } from '../../utils/resultStatus';
+import { buildDiffCsv, groupTransitions } from '../../utils/runDiff';
+import './RunComparison.css';
+
+interface RunComparisonProps {
+  diff: RunDiff;
+  onClose: () => void;
+}
+
+export const RunComparison: React.FC<RunComparisonProps> = ({ diff, onClose }) => {
+  const { t, currentLanguage } = useLanguage();
+  const { showToast } = useToast();
+  const [expandedGroup, setExpandedGroup] = useState<string | null>(null);
+
+  const transitions = useMemo(() => groupTransitions(diff.rows), [diff]);
+  const counts = useMemo(() => {
+    return diff.rows.reduce(
+      (total, row) => ({ ...total, [row.change]: total[row.change] + 1 }),
+      { changed: 0, unchanged: 0, added: 0, removed: 0 }
+    );
+  }, [diff]);
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(currentLanguage === 'tr' ? 'tr-TR' : 'en-US');
+  };
+
+  const renderBadge = (row: RunDiffRow, side: 'before' | 'after') => {
+    const result = row[side];
+    if (!result) {
+      return <span className="status-badge not-found">—</span>;
+    }
+    return <span className={`status-badge ${getStatusClass(result)}`}>{getStatusText(result, t)}</span>;
+  };
+
+  const handleExport = () => {
+    const csvContent = buildDiffCsv(diff, currentLanguage);
+    downloadFile(csvContent, `fastchecker-diff-${new Date().toISOString().split('T')[0]}.csv`, 'text/csv');
+    showToast(t('csvExportedSuccessfully'), 'success');
+  };
+
+  // Rows only name their marketplace when the comparison spans several
+  const showMarketplace = diff.marketplaces.length > 1;
+  const getRowLabel = (row: RunDiffRow) => {
+    return showMarketplace && row.marketplace ? `${row.asin} (${getMarketplaceDomain(row.marketplace)})` : row.asin;
+  };
+
+  const addedAsins = diff.rows.filter(row => row.change === 'added').map(getRowLabel);
+  const removedAsins = diff.rows.filter(row => row.change === 'removed').map(getRowLabel);
+
+  return (
+    <div className="run-comparison">
+      <div className="run-comparison-header">
+        <button className="results-action-btn" onClick={onClose}>
+          ← {t('back')}
+        </button>
+        <button className="results-action-btn" onClick={handleExport}>
+          📥 {t('export')}
+        </button>
+      </div>
+
+      <div className="run-comparison-runs">
+        <span>{formatDate(diff.base.createdAt)}</span>
+        <span className="run-comparison-arrow">→</span>
+        <span>{formatDate(diff.compare.createdAt)}</span>
+      </div>
+
+      {diff.marketplaceMismatch && (
+        <div className="run-comparison-warning">
+          ⚠️ {t('diffMarketplaceMismatch')
+            .replace('{before}', diff.base.marketplaces?.length
+              ? diff.base.marketplaces.map(getMarketplaceDomain).join(', ')
+              : getMarketplaceDomain(diff.base.marketplace || ''))
+            .replace('{after}', diff.compare.marketplaces?.length
+              ? diff.compare.marketplaces.map(getMarketplaceDomain).join(', ')
+              : getMarketplaceDomain(diff.compare.marketplace || ''))}
+        </div>
+      )}
+
+      <div className="run-comparison-stats">
+        <span className="stat-warning">🔄 {counts.changed} {t('diffChanged')}</span>
+        <span>＝ {counts.unchanged} {t('diffUnchanged')}</span>
+        {counts.added > 0 && <span>➕ {counts.added} {t('diffAdded')}</span>}
+        {counts.removed > 0 && <span>➖ {counts.removed} {t('diffRemoved')}</span>}
+      </div>
+
+      {transitions.length === 0 && (
+        <div className="empty-state">
+          <p className="empty-text">{t('diffNoChanges')}</p>
+        </div>
+      )}
+
+      <div className="run-comparison-groups">
+        {transitions.map(([key, rows]) => (
+          <div key={key} className="transition-group">
+            <button
+              className="transition-header"
+              onClick={() => setExpandedGroup(expandedGroup === key ? null : key)}
+            >
+              {renderBadge(rows[0], 'before')}
+              <span className="run-comparison-arrow">→</span>
+              {renderBadge(rows[0], 'after')}
+              <span className="transition-count">{rows.length}</span>
+            </button>
+            {expandedGroup === key && (
+              <div className="transition-rows">
+                {rows.map(row => (
+                  <div key={`${row.marketplace}:${row.asin}`} className="transition-row">
+                    <span className="transition-asin">{row.asin}</span>
+                    {showMarketplace && row.marketplace && (
+                      <span className="transition-marketplace">{getMarketplaceDomain(row.marketplace)}</span>
+                    )}
+                    <span className="transition-title">{getProductTitle((row.after || row.before)!)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {addedAsins.length > 0 && (
+        <div className="asin-list-section">
+          <div className="asin-list-header">
+            <span className="asin-list-title">{t('diffOnlyInNewer').replace('{count}', addedAsins.length.toString())}</span>
+          </div>
+          <div className="asin-list">{addedAsins.join(', ')}</div>
+        </div>
+      )}
+
+      {removedAsins.length > 0 && (
+        <div className="asin-list-section">
+          <div className="asin-list-header">
+            <span className="asin-list-title">{t('diffOnlyInOlder').replace('{count}', removedAsins.length.toString())}</span>
+          </div>
+          <div className="asin-list">{removedAsins.join(', ')}</div>
+        </div>
+      )}
+    </div>
+  );
+};
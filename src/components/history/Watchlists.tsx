@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useModal } from '../../contexts/ModalContext';
+import { Watchlist, WatchlistSchedule } from '../../types/watchlist';
+import { parseAsinInput } from '../../utils/asin';
+import { sendToBackground } from '../../utils/backgroundMessaging';
+import {
+  DEFAULT_CUSTOM_INTERVAL_HOURS,
+  addWatchlist,
+  createWatchlist,
+  deleteWatchlist,
+  getWatchlists,
+  onWatchlistsChanged,
+  updateWatchlist
+} from '../../utils/watchlists';
+import './Watchlists.css';
+
+const SCHEDULES: WatchlistSchedule[] = ['daily', 'weekly', 'custom'];
+
+// Alarms live in the background worker; it re-reads storage on every sync
+const syncAlarms = () => {
+  sendToBackground({ type: 'SYNC_WATCHLISTS' }).catch(error => {
+    console.error('Error syncing watchlist alarms:', error);
+  });
+};
+
+export const Watchlists: React.FC = () => {
+  const { t, currentLanguage } = useLanguage();
+  const { showToast } = useToast();
+  const { showModal } = useModal();
+
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [asinText, setAsinText] = useState('');
+  const [schedule, setSchedule] = useState<WatchlistSchedule>('daily');
+  const [customHours, setCustomHours] = useState(DEFAULT_CUSTOM_INTERVAL_HOURS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const parsedAsins = useMemo(() => parseAsinInput(asinText), [asinText]);
+  const uniqueAsins = useMemo(() => [...new Set(parsedAsins.asins)], [parsedAsins]);
+
+  // Runs update the stored watchlists from the background worker
+  useEffect(() => {
+    getWatchlists().then(setWatchlists);
+    return onWatchlistsChanged(setWatchlists);
+  }, []);
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(currentLanguage === 'tr' ? 'tr-TR' : 'en-US');
+  };
+
+  const getScheduleLabel = (watchlist: Watchlist) => {
+    if (watchlist.schedule === 'custom') {
+      return t('watchlistEveryHours').replace('{hours}', watchlist.customIntervalHours.toString());
+    }
+    return t(watchlist.schedule === 'daily' ? 'watchlistDaily' : 'watchlistWeekly');
+  };
+
+  const resetForm = () => {
+    setName('');
+    setAsinText('');
+    setSchedule('daily');
+    setCustomHours(DEFAULT_CUSTOM_INTERVAL_HOURS);
+    setIsFormOpen(false);
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      showToast(t('watchlistNameRequired'), 'error');
+      return;
+    }
+    if (uniqueAsins.length === 0) {
+      showToast(t('enterValidAsins'), 'error');
+      return;
+    }
+
+    try {
+      await addWatchlist(createWatchlist(name.trim(), uniqueAsins, schedule, customHours));
+      syncAlarms();
+      resetForm();
+      showToast(t('watchlistCreated'), 'success');
+    } catch (error) {
+      console.error('Error creating watchlist:', error);
+      showToast(t('failedToSaveWatchlist'), 'error');
+    }
+  };
+
+  const handleToggleEnabled = async (watchlist: Watchlist) => {
+    try {
+      await updateWatchlist(watchlist.id, current => ({ ...current, enabled: !current.enabled }));
+      syncAlarms();
+    } catch (error) {
+      console.error('Error updating watchlist:', error);
+      showToast(t('failedToSaveWatchlist'), 'error');
+    }
+  };
+
+  const handleRunNow = async (watchlist: Watchlist) => {
+    try {
+      await sendToBackground({ type: 'RUN_WATCHLIST', watchlistId: watchlist.id });
+      showToast(t('watchlistRunStarted'), 'info');
+    } catch (error) {
+      console.error('Error running watchlist:', error);
+      showToast(t('failedToCheckAsins'), 'error');
+    }
+  };
+
+  const handleDelete = (watchlist: Watchlist) => {
+    showModal({
+      title: t('deleteWatchlist'),
+      message: t('areYouSureDeleteWatchlist').replace('{name}', watchlist.name),
+      onConfirm: async () => {
+        try {
+          await deleteWatchlist(watchlist.id);
+          syncAlarms();
+        } catch (error) {
+          console.error('Error deleting watchlist:', error);
+          showToast(t('failedToSaveWatchlist'), 'error');
+        }
+      },
+      isDestructive: true,
+      confirmText: t('delete'),
+      cancelText: t('cancel')
+    });
+  };
+
+  return (
+    <div className="watchlists">
+      {isFormOpen ? (
+        <div className="watchlist-form">
+          <input
+            type="text"
+            className="history-search"
+            placeholder={t('watchlistName')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <textarea
+            className="watchlist-asins"
+            placeholder="B0C31QBVQ1, B0DRW7WRX3..."
+            value={asinText}
+            onChange={(e) => setAsinText(e.target.value)}
+          />
+          <div className="watchlist-form-row">
+            <select
+              className="watchlist-select"
+              value={schedule}
+              onChange={(e) => setSchedule(e.target.value as WatchlistSchedule)}
+            >
+              {SCHEDULES.map(option => (
+                <option key={option} value={option}>
+                  {t(option === 'daily' ? 'watchlistDaily' : option === 'weekly' ? 'watchlistWeekly' : 'watchlistCustom')}
+                </option>
+              ))}
+            </select>
+            {schedule === 'custom' && (
+              <input
+                type="number"
+                className="watchlist-hours"
+                min={1}
+                value={customHours || ''}
+                onChange={(e) => setCustomHours(parseInt(e.target.value, 10) || 0)}
+                title={t('watchlistIntervalHours')}
+              />
+            )}
+            <span className="watchlist-asin-count">
+              {t('watchlistAsinCount').replace('{count}', uniqueAsins.length.toString())}
+            </span>
+          </div>
+          <div className="watchlist-form-actions">
+            <button className="results-action-btn" onClick={resetForm}>
+              {t('cancel')}
+            </button>
+            <button className="results-action-btn" onClick={handleCreate}>
+              💾 {t('save')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button className="results-action-btn watchlist-new" onClick={() => setIsFormOpen(true)}>
+          ➕ {t('newWatchlist')}
+        </button>
+      )}
+
+      {watchlists.length === 0 && !isFormOpen && (
+        <div className="empty-state">
+          <p className="empty-text">{t('watchlistsEmpty')}</p>
+          <p className="empty-subtext">{t('watchlistsEmptySubtext')}</p>
+        </div>
+      )}
+
+      <div className="history-list">
+        {watchlists.map(watchlist => (
+          <div key={watchlist.id} className="watchlist-card">
+            <div className="watchlist-card-header">
+              <div className="history-run-info">
+                <div className="history-run-meta">
+                  <span className="history-run-date">{watchlist.name}</span>
+                  <span className="history-run-marketplace">{getScheduleLabel(watchlist)}</span>
+                  {watchlist.lastRunStatus === 'postponed' && (
+                    <span className="history-run-cancelled" title={watchlist.lastRunMessage}>
+                      {t('watchlistPostponed')}
+                    </span>
+                  )}
+                </div>
+                <div className="history-run-stats">
+                  {t('watchlistAsinCount').replace('{count}', watchlist.asins.length.toString())}
+                  {watchlist.lastRunAt && ` · ${t('watchlistLastRun')} ${formatDate(watchlist.lastRunAt)}`}
+                  {watchlist.enabled && watchlist.nextRunAt && ` · ${t('watchlistNextRun')} ${formatDate(watchlist.nextRunAt)}`}
+                </div>
+              </div>
+              <label className="switch">
+                <input
+                  type="checkbox"
+                  checked={watchlist.enabled}
+                  onChange={() => handleToggleEnabled(watchlist)}
+                />
+                <span className="slider"></span>
+              </label>
+            </div>
+
+            <div className="watchlist-card-actions">
+              <button
+                className="results-action-btn"
+                onClick={() => setExpandedId(expandedId === watchlist.id ? null : watchlist.id)}
+              >
+                🔄 {t('watchlistChanges').replace('{count}', watchlist.changes.length.toString())}
+              </button>
+              <button className="results-action-btn" onClick={() => handleRunNow(watchlist)}>
+                ▶️ {t('watchlistRunNow')}
+              </button>
+              <button className="results-action-btn" onClick={() => handleDelete(watchlist)}>
+                🗑️
+              </button>
+            </div>
+
+            {expandedId === watchlist.id && (
+              <div className="watchlist-changes">
+                {watchlist.changes.length === 0 && (
+                  <div className="watchlist-change">{t('watchlistNoChanges')}</div>
+                )}
+                {watchlist.changes.map((change, index) => (
+                  <div key={`${change.asin}-${change.detectedAt}-${index}`} className="watchlist-change">
+                    <span className="watchlist-change-asin">{change.asin}</span>
+                    <span className="watchlist-change-text">
+                      {change.from} → {change.to} · {formatDate(change.detectedAt)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { useAppContext } from '../../contexts/AppContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useSubscription } from '../../contexts/SubscriptionContext';
+import { AppTab } from '../../types/app';
 import './Header.css';
 
+// Tabs in the order they are shown; the arrow keys move between them
+const TAB_ORDER: AppTab[] = ['check', 'history', 'settings', 'account', 'subscription'];
+
 interface HeaderProps {
   showNavigation?: boolean;
 }
@@ -45,10 +49,27 @@ export function Header({ showNavigation = true }: HeaderProps) {
     chrome.tabs.create({ url: 'https://fastchecker.com' });
   };
 
-  const handleTabClick = (tab: 'check' | 'settings' | 'account' | 'subscription') => {
+  const handleTabClick = (tab: AppTab) => {
     switchTab(tab);
   };
 
+  // Roving focus: only the active tab is in the tab order, arrows pick the others
+  const handleTabKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    const current = TAB_ORDER.indexOf(activeTab);
+    const targets: Record<string, number> = {
+      ArrowLeft: (current - 1 + TAB_ORDER.length) % TAB_ORDER.length,
+      ArrowRight: (current + 1) % TAB_ORDER.length,
+      Home: 0,
+      End: TAB_ORDER.length - 1
+    };
+    const index = targets[e.key];
+    if (index === undefined) return;
+
+    e.preventDefault();
+    switchTab(TAB_ORDER[index]);
+    e.currentTarget.querySelectorAll<HTMLElement>('[role="tab"]')[index]?.focus();
+  };
+
   // Helper method to get clean plan name - remove hardcoded mapping
   const getCleanPlanName = (planName: string) => {
     // Remove " Plan" suffix and return uppercase
@@ -122,17 +143,33 @@ export function Header({ showNavigation = true }: HeaderProps) {
 
       {/* Navigation */}
       {showNavigation && (
-        <nav className="nav-tabs">
+        <nav className="nav-tabs" role="tablist" onKeyDown={handleTabKeyDown}>
           <button 
             className={`nav-tab ${activeTab === 'check' ? 'active' : ''}`}
             onClick={() => handleTabClick('check')}
+            role="tab"
+            aria-selected={activeTab === 'check'}
+            tabIndex={activeTab === 'check' ? 0 : -1}
           >
             <span className="nav-icon">✓</span>
             <span className="nav-label">{t('check')}</span>
           </button>
+          <button 
+            className={`nav-tab ${activeTab === 'history' ? 'active' : ''}`}
+            onClick={() => handleTabClick('history')}
+            role="tab"
+            aria-selected={activeTab === 'history'}
+            tabIndex={activeTab === 'history' ? 0 : -1}
+          >
+            <span className="nav-icon">🕘</span>
+            <span className="nav-label">{t('history')}</span>
+          </button>
           <button 
             className={`nav-tab ${activeTab === 'settings' ? 'active' : ''}`}
             onClick={() => handleTabClick('settings')}
+            role="tab"
+            aria-selected={activeTab === 'settings'}
+            tabIndex={activeTab === 'settings' ? 0 : -1}
           >
             <span className="nav-icon">⚙️</span>
             <span className="nav-label">{t('settings')}</span>
@@ -140,6 +177,9 @@ export function Header({ showNavigation = true }: HeaderProps) {
           <button 
             className={`nav-tab ${activeTab === 'account' ? 'active' : ''}`}
             onClick={() => handleTabClick('account')}
+            role="tab"
+            aria-selected={activeTab === 'account'}
+            tabIndex={activeTab === 'account' ? 0 : -1}
           >
             <span className="nav-icon">👤</span>
             <span className="nav-label">{t('account')}</span>
@@ -147,13 +187,16 @@ export function Header({ showNavigation = true }: HeaderProps) {
           <button 
             className={`nav-tab ${activeTab === 'subscription' ? 'active' : ''}`}
             onClick={() => handleTabClick('subscription')}
+            role="tab"
+            aria-selected={activeTab === 'subscription'}
+            tabIndex={activeTab === 'subscription' ? 0 : -1}
           >
             <span className="nav-icon">💳</span>
             <span className="nav-label">{t('subscription')}</span>
           </button>
           <div className="nav-indicator" style={{
-            width: '25%',
-            left: `${['check', 'settings', 'account', 'subscription'].indexOf(activeTab) * 25}%`
+            width: '20%',
+            left: `${TAB_ORDER.indexOf(activeTab) * 20}%`
           }}></div>
         </nav>
       )}
@@ -0,0 +1,7 @@
+// FastChecker content script - eligibility badges on Amazon marketplace pages
+
+import { initGridBadges } from './content/gridBadges';
+import { initProductBadge } from './content/productBadge';
+
+initProductBadge();
+initGridBadges();
@@ -0,0 +1,187 @@
+// Eligibility badge for Amazon pages - rendered in a shadow root so the page's
+// styles can't reach it, and the extension's can't leak into the page
+
+import { Language } from '../contexts/LanguageContext';
+import { CheckResult, StatusClass } from '../types/check';
+import { sendToBackground } from '../utils/backgroundMessaging';
+import { getText } from '../utils/language';
+import { getStatusClass } from '../utils/resultStatus';
+
+export type BadgeState =
+  | { kind: 'loading' }
+  | { kind: 'result'; result: CheckResult }
+  | { kind: 'unchecked'; checkable?: boolean } // no recent result, and no check was spent on it
+  | { kind: 'error' };
+
+export interface Badge {
+  host: HTMLElement;
+  update: (state: BadgeState) => void;
+}
+
+export interface BadgeCounts {
+  success: number;
+  warning: number;
+  error: number; // restricted
+  pending: number;
+  unchecked: number; // no recent result; checked only when asked to
+}
+
+export interface BadgeCounter {
+  host: HTMLElement;
+  update: (counts: BadgeCounts) => void;
+}
+
+const STATUS_LABEL_KEYS: Record<StatusClass, string> = {
+  success: 'badgeSellable',
+  warning: 'badgeApprovalRequired',
+  error: 'badgeRestricted',
+  'not-found': 'badgeNotFound'
+};
+
+// Same colors as the status badges in the side panel
+const BADGE_STYLES = `
+  .badge {
+    display: inline-flex;
+    align-items: center;
+    gap: 4px;
+    margin: 0 0 8px;
+    padding: 4px 10px;
+    border: 1px solid rgba(158, 158, 158, 0.3);
+    border-radius: 12px;
+    background: #ffffff;
+    color: #757575;
+    font: 600 12px/1.4 'Inter', Arial, sans-serif;
+    white-space: nowrap;
+    cursor: pointer;
+  }
+  .badge:hover { filter: brightness(0.95); }
+  .badge.compact { margin: 0; padding: 2px 6px; font-size: 11px; }
+  .badge.success { background: #e6f9ee; color: #00a344; border-color: rgba(0, 200, 83, 0.3); }
+  .badge.warning { background: #fff6e0; color: #b37800; border-color: rgba(255, 171, 0, 0.3); }
+  .badge.error { background: #fbe6e6; color: #d50000; border-color: rgba(213, 0, 0, 0.3); }
+  .badge.not-found { background: #f3f3f3; color: #757575; border-color: rgba(158, 158, 158, 0.3); }
+`;
+
+export const createBadge = (language: Language, onClick: () => void, compact = false): Badge => {
+  const host = document.createElement('fastchecker-badge');
+  const shadow = host.attachShadow({ mode: 'open' });
+  const style = document.createElement('style');
+  style.textContent = BADGE_STYLES;
+  const button = document.createElement('button');
+  button.addEventListener('click', (e) => {
+    // Badges can sit inside product links
+    e.preventDefault();
+    e.stopPropagation();
+    onClick();
+  });
+  shadow.append(style, button);
+
+  const update = (state: BadgeState) => {
+    let statusClass = 'loading';
+    let labelKey = 'badgeChecking';
+    if (state.kind === 'error' || (state.kind === 'result' && state.result.status === 'error')) {
+      statusClass = 'not-found';
+      labelKey = 'badgeFailed';
+    } else if (state.kind === 'result') {
+      statusClass = getStatusClass(state.result);
+      labelKey = STATUS_LABEL_KEYS[statusClass as StatusClass];
+    } else if (state.kind === 'unchecked') {
+      statusClass = 'not-found';
+      labelKey = state.checkable ? 'badgeCheckNow' : 'badgeNotChecked';
+    }
+
+    const label = getText(labelKey, language);
+    button.title = getText(labelKey === 'badgeCheckNow' ? labelKey : 'badgeOpenDetails', language);
+    button.className = `badge ${statusClass}${compact ? ' compact' : ''}`;
+    button.textContent = compact ? label : `FastChecker · ${label}`;
+  };
+
+  update({ kind: 'loading' });
+  return { host, update };
+};
+
+const COUNTER_STYLES = `
+  .counter {
+    position: fixed;
+    right: 16px;
+    bottom: 16px;
+    z-index: 2147483000;
+    display: flex;
+    align-items: center;
+    gap: 10px;
+    padding: 8px 12px;
+    border: 1px solid #e5e7eb;
+    border-radius: 8px;
+    background: #ffffff;
+    box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.15);
+    color: #111827;
+    font: 600 12px/1.4 'Inter', Arial, sans-serif;
+  }
+  .counter-title { color: #00a88a; }
+  .success { color: #00a344; }
+  .warning { color: #b37800; }
+  .error { color: #d50000; }
+  .pending { color: #757575; }
+  .check-more {
+    padding: 2px 8px;
+    border: 1px solid #00a88a;
+    border-radius: 6px;
+    background: #e6f6f3;
+    color: #00796b;
+    font: inherit;
+    cursor: pointer;
+  }
+  .check-more:hover { filter: brightness(0.95); }
+`;
+
+/**
+ * Page summary pinned to the bottom-right corner. Products without a recent
+ * result get a "check N more" button, so the quota is only spent on request.
+ */
+export const createCounter = (language: Language, onCheckMore: () => void): BadgeCounter => {
+  const host = document.createElement('fastchecker-counter');
+  const shadow = host.attachShadow({ mode: 'open' });
+  const style = document.createElement('style');
+  style.textContent = COUNTER_STYLES;
+  const counter = document.createElement('div');
+  counter.className = 'counter';
+  shadow.append(style, counter);
+
+  const createCheckMoreButton = (count: number) => {
+    const button = document.createElement('button');
+    button.className = 'check-more';
+    button.textContent = getText('badgeCheckMore', language).replace(/\{count\}/g, count.toString());
+    button.addEventListener('click', onCheckMore);
+    return button;
+  };
+
+  const update = (counts: BadgeCounts) => {
+    const items: [keyof BadgeCounts, string, string][] = [
+      ['success', '✅', 'badgeSellable'],
+      ['warning', '⚠️', 'badgeApprovalRequired'],
+      ['error', '❌', 'badgeRestricted'],
+      ['pending', '⏳', 'badgeChecking']
+    ];
+    counter.replaceChildren(
+      Object.assign(document.createElement('span'), { className: 'counter-title', textContent: 'FastChecker' }),
+      ...items
+        .filter(([key]) => key !== 'pending' || counts.pending > 0)
+        .map(([key, icon, labelKey]) => Object.assign(document.createElement('span'), {
+          className: key,
+          textContent: `${icon} ${counts[key]}`,
+          title: getText(labelKey, language)
+        })),
+      ...(counts.unchecked > 0 ? [createCheckMoreButton(counts.unchecked)] : [])
+    );
+  };
+
+  update({ success: 0, warning: 0, error: 0, pending: 0, unchecked: 0 });
+  return { host, update };
+};
+
+// The background opens the side panel on the Check tab with the ASIN's details
+export const openAsinDetails = (asin: string, marketplace: string) => {
+  sendToBackground({ type: 'OPEN_ASIN_DETAILS', asin, marketplace }).catch(error => {
+    console.error('FastChecker: failed to open details:', error);
+  });
+};
@@ -0,0 +1,140 @@
+// Search and bestseller grid badges - every product tile (`data-asin`) gets a
+// corner badge, and a floating counter sums up the page. Tiles show saved
+// results; the rest are checked in one batch from the counter's button
+
+import { CheckResult } from '../types/check';
+import { sendToBackground } from '../utils/backgroundMessaging';
+import { getPageBadgesEnabled } from '../utils/checkPreferences';
+import { getStoredLanguage } from '../utils/language';
+import { parseAmazonUrl } from '../utils/amazonUrl';
+import { getStatusClass } from '../utils/resultStatus';
+import { Badge, BadgeCounts, BadgeState, createBadge, createCounter, openAsinDetails } from './badge';
+
+const ASIN_PATTERN = /^[A-Z0-9]{10}$/;
+const SCAN_DELAY = 500; // lets infinite scroll finish adding a row of tiles
+// Search results, bestseller and new release lists (also /Some-Category/zgbs/...)
+const GRID_PATH_PATTERN = /^\/s(\/|$)|\/(gp\/bestsellers|zgbs|gp\/new-releases)(\/|$)/;
+
+const CORNER_STYLE = 'position: absolute; top: 4px; left: 4px; z-index: 10;';
+
+// Outermost element of each tile - inner links and images repeat the attribute
+const getTiles = (): HTMLElement[] => {
+  return [...document.querySelectorAll<HTMLElement>('[data-asin]')].filter(tile => {
+    const asin = tile.dataset.asin || '';
+    return ASIN_PATTERN.test(asin) && !tile.parentElement?.closest(`[data-asin="${asin}"]`);
+  });
+};
+
+const isOwnNode = (node: Node) => {
+  return node.nodeName === 'FASTCHECKER-BADGE' || node.nodeName === 'FASTCHECKER-COUNTER';
+};
+
+const countStates = (states: Iterable<BadgeState>): BadgeCounts => {
+  const counts: BadgeCounts = { success: 0, warning: 0, error: 0, pending: 0, unchecked: 0 };
+  for (const state of states) {
+    if (state.kind === 'loading') {
+      counts.pending++;
+    } else if (state.kind === 'unchecked') {
+      counts.unchecked++;
+    } else if (state.kind === 'result' && state.result.status !== 'error') {
+      const statusClass = getStatusClass(state.result);
+      if (statusClass !== 'not-found') counts[statusClass]++;
+    }
+  }
+  return counts;
+};
+
+const getStatuses = async (asins: string[], marketplace: string, cachedOnly: boolean) => {
+  const response = await sendToBackground({ type: 'GET_ASIN_STATUSES', asins, marketplace, cachedOnly });
+  return new Map((response?.results || []).map((result: CheckResult) => [result.asin, result]));
+};
+
+export const initGridBadges = async () => {
+  const marketplace = parseAmazonUrl(location.href)?.marketplace;
+  // Home, cart, deals and order pages list products too; they are left alone
+  if (!marketplace || !GRID_PATH_PATTERN.test(location.pathname) || !(await getPageBadgesEnabled())) return;
+
+  const language = await getStoredLanguage();
+  const states = new Map<string, BadgeState>();
+  const badges = new Map<string, Badge[]>(); // the same ASIN can show up in several tiles
+  let scanTimer: number | undefined;
+
+  const setState = (asin: string, state: BadgeState) => {
+    states.set(asin, state);
+    badges.get(asin)?.forEach(badge => badge.update(state));
+  };
+
+  const attachBadge = (tile: HTMLElement, asin: string) => {
+    if (tile.querySelector(':scope > fastchecker-badge')) return;
+    const badge = createBadge(language, () => openAsinDetails(asin, marketplace), true);
+    badge.host.setAttribute('style', CORNER_STYLE);
+    if (getComputedStyle(tile).position === 'static') {
+      tile.style.position = 'relative';
+    }
+    tile.prepend(badge.host);
+    badge.update(states.get(asin) || { kind: 'loading' });
+    // Tiles Amazon re-rendered took their old badges with them
+    badges.set(asin, [...(badges.get(asin) || []).filter(item => item.host.isConnected), badge]);
+  };
+
+  const loadStatuses = async (asins: string[], cachedOnly: boolean) => {
+    try {
+      const found = await getStatuses(asins, marketplace, cachedOnly);
+      asins.forEach(asin => {
+        const result = found.get(asin);
+        if (result) {
+          setState(asin, { kind: 'result', result });
+        } else {
+          setState(asin, cachedOnly ? { kind: 'unchecked' } : { kind: 'error' });
+        }
+      });
+    } catch (error) {
+      // Also thrown when the extension was reloaded under the open page
+      console.error('FastChecker: failed to get ASIN statuses:', error);
+      asins.forEach(asin => setState(asin, { kind: 'error' }));
+    }
+    counter.update(countStates(states.values()));
+  };
+
+  // Every unchecked tile in one request; the background throttles the batches
+  const checkUnchecked = () => {
+    const asins = [...states].filter(([, state]) => state.kind === 'unchecked').map(([asin]) => asin);
+    asins.forEach(asin => setState(asin, { kind: 'loading' }));
+    counter.update(countStates(states.values()));
+    loadStatuses(asins, false);
+  };
+
+  const counter = createCounter(language, checkUnchecked);
+
+  const scan = async () => {
+    const newAsins: string[] = [];
+    getTiles().forEach(tile => {
+      const asin = tile.dataset.asin as string;
+      attachBadge(tile, asin);
+      if (!states.has(asin)) {
+        states.set(asin, { kind: 'loading' });
+        newAsins.push(asin);
+      }
+    });
+
+    if (states.size === 0) return;
+    if (!counter.host.isConnected) document.body.append(counter.host);
+    counter.update(countStates(states.values()));
+    if (newAsins.length === 0) return;
+
+    // Saved results only; they cost nothing
+    await loadStatuses(newAsins, true);
+  };
+
+  const scheduleScan = () => {
+    window.clearTimeout(scanTimer);
+    scanTimer = window.setTimeout(scan, SCAN_DELAY);
+  };
+
+  scan();
+  // Infinite scroll and lazy-loaded carousels add tiles without a page load
+  new MutationObserver(mutations => {
+    const added = mutations.some(mutation => [...mutation.addedNodes].some(node => !isOwnNode(node)));
+    if (added) scheduleScan();
+  }).observe(document.body, { childList: true, subtree: true });
+};
@@ -0,0 +1,122 @@
+// Product page badge - shows the eligibility of the product being viewed next
+// to the buy box; clicking it opens the product's details in the side panel.
+// Products without a recent result are only checked when the badge is clicked
+
+import { sendToBackground } from '../utils/backgroundMessaging';
+import { getPageBadgesEnabled } from '../utils/checkPreferences';
+import { getStoredLanguage } from '../utils/language';
+import { parseAmazonUrl } from '../utils/amazonUrl';
+import { Badge, BadgeState, createBadge, openAsinDetails } from './badge';
+
+const PRODUCT_PAGE_SELECTORS = '#dp, #dp-container, #ppd';
+const BUY_BOX_SELECTORS = ['#desktop_buybox', '#buybox', '#buyBoxAccordion', '#rightCol'];
+const TITLE_SELECTORS = ['#title_feature_div', '#titleSection', '#productTitle'];
+const REFRESH_DELAY = 300; // lets a variation swap finish re-rendering
+
+const FLOATING_STYLE = 'position: fixed; top: 80px; right: 16px; z-index: 2147483000;';
+
+// The hidden ASIN field follows variation changes; the URL is the fallback
+const getPageAsin = (): string | null => {
+  if (!document.querySelector(PRODUCT_PAGE_SELECTORS)) return null;
+  const input = document.querySelector<HTMLInputElement>('input#ASIN, input[name="ASIN"]');
+  if (input?.value && /^[A-Z0-9]{10}$/i.test(input.value)) {
+    return input.value.toUpperCase();
+  }
+  return parseAmazonUrl(location.href)?.asin || null;
+};
+
+// Above the buy box, else under the title, else floating in the corner
+const placeBadge = (host: HTMLElement) => {
+  const buyBox = BUY_BOX_SELECTORS.map(selector => document.querySelector(selector)).find(Boolean);
+  if (buyBox) {
+    host.removeAttribute('style');
+    buyBox.prepend(host);
+    return;
+  }
+  const title = TITLE_SELECTORS.map(selector => document.querySelector(selector)).find(Boolean);
+  if (title) {
+    host.removeAttribute('style');
+    title.after(host);
+    return;
+  }
+  host.setAttribute('style', FLOATING_STYLE);
+  document.body.append(host);
+};
+
+export const initProductBadge = async () => {
+  const marketplace = parseAmazonUrl(location.href)?.marketplace;
+  if (!marketplace || !(await getPageBadgesEnabled())) return;
+
+  const language = await getStoredLanguage();
+  let currentAsin: string | null = null;
+  let badge: Badge | null = null;
+  let state: BadgeState = { kind: 'loading' };
+  let refreshTimer: number | undefined;
+
+  const setState = (asin: string, next: BadgeState) => {
+    if (asin !== currentAsin) return; // another variation was picked meanwhile
+    state = next;
+    badge?.update(next);
+  };
+
+  const loadStatus = async (asin: string, cachedOnly: boolean) => {
+    setState(asin, { kind: 'loading' });
+    try {
+      const response = await sendToBackground({ type: 'GET_ASIN_STATUSES', asins: [asin], marketplace, cachedOnly });
+      const result = response?.results?.[0];
+      if (result) {
+        setState(asin, { kind: 'result', result });
+      } else {
+        setState(asin, cachedOnly ? { kind: 'unchecked', checkable: true } : { kind: 'error' });
+      }
+    } catch (error) {
+      // Also thrown when the extension was reloaded under the open page
+      console.error('FastChecker: failed to get ASIN status:', error);
+      setState(asin, { kind: 'error' });
+    }
+  };
+
+  const handleClick = () => {
+    if (!currentAsin) return;
+    if (state.kind === 'unchecked') {
+      loadStatus(currentAsin, false);
+    } else {
+      openAsinDetails(currentAsin, marketplace);
+    }
+  };
+
+  const refresh = async () => {
+    const asin = getPageAsin();
+    // Amazon re-renders the buy box on variation changes, taking the badge with it
+    if (asin === currentAsin) {
+      if (badge && asin && !badge.host.isConnected) placeBadge(badge.host);
+      return;
+    }
+
+    currentAsin = asin;
+    if (!asin) {
+      badge?.host.remove();
+      return;
+    }
+
+    badge = badge || createBadge(language, handleClick);
+    placeBadge(badge.host);
+    // Saved results only; a fresh check waits for a click
+    await loadStatus(asin, true);
+  };
+
+  // At most one refresh per delay; product pages keep mutating (ads, carousels)
+  const scheduleRefresh = () => {
+    if (refreshTimer !== undefined) return;
+    refreshTimer = window.setTimeout(() => {
+      refreshTimer = undefined;
+      refresh();
+    }, REFRESH_DELAY);
+  };
+
+  refresh();
+  // Variation picks swap the product without a page load, re-rendering the
+  // buy box and replacing the URL; back and forward restore an earlier one
+  new MutationObserver(scheduleRefresh).observe(document.body, { childList: true, subtree: true });
+  window.addEventListener('popstate', scheduleRefresh);
+};
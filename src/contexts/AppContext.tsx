@@ -1,13 +1,13 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import { AppContextType } from '../types/app';
+import { AppContextType, AppTab } from '../types/app';
 
 interface AppState {
-  activeTab: 'check' | 'settings' | 'account' | 'subscription';
+  activeTab: AppTab;
   isLoading: boolean;
 }
 
 type AppAction =
-  | { type: 'SWITCH_TAB'; payload: 'check' | 'settings' | 'account' | 'subscription' }
+  | { type: 'SWITCH_TAB'; payload: AppTab }
   | { type: 'SET_LOADING'; payload: boolean };
 
 const initialState: AppState = {
@@ -31,7 +31,7 @@ const AppContext = createContext<AppContextType | undefined>(undefined);
 export function AppProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(appReducer, initialState);
 
-  const switchTab = (tab: 'check' | 'settings' | 'account' | 'subscription') => {
+  const switchTab = (tab: AppTab) => {
     dispatch({ type: 'SWITCH_TAB', payload: tab });
   };
 
@@ -58,6 +58,7 @@ export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children })
         'register': 'Register',
         'verification': 'Verification',
         'check': 'Check',
+        'history': 'History',
         'settings': 'Settings',
         'account': 'Account',
         'subscription': 'Subscription',
@@ -166,6 +167,204 @@ export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children })
             'checkError': 'Error',
             'cancel': 'Cancel',
             'confirm': 'Confirm',
+            'pauseCheck': 'Pause',
+            'resumeCheck': 'Resume',
+            'checkPaused': 'Paused:',
+            'checkCancelled': 'Check cancelled. {count} ASIN(s) were not sent.',
+            'unsentAsins': 'Not checked ({count})',
+            'checkRemaining': 'Check remaining',
+            'copy': 'Copy',
+            'asinsCopied': 'ASINs copied to clipboard',
+            'failedToCopy': 'Failed to copy to clipboard',
+            'importDropzone': 'Drop a CSV, TSV, XLSX or TXT file here, or click to browse',
+            'readingFile': 'Reading file...',
+            'importFileEmpty': 'The file does not contain any values',
+            'importFileFailed': 'Failed to read the file',
+            'asinColumn': 'ASIN column',
+            'importValid': 'valid',
+            'importInvalid': 'invalid',
+            'importDuplicates': 'duplicates',
+            'replaceInput': 'Replace input',
+            'appendToInput': 'Add to input',
+            'noValidAsinsInColumn': 'No valid ASINs in the selected column',
+            'asinsImported': '{count} ASIN(s) imported',
+            'invalidAsinsRejected': '{count} invalid value(s) rejected and not sent',
+            'rejectedAsins': 'Rejected ({count})',
+            'marketplaceMismatch': '{count} link(s) are from {domains}, but this run checks {marketplace}',
+            'checkPageAsins': 'Check all ASINs on this page',
+            'scanningPage': 'Scanning page...',
+            'pageScanFailed': 'This page can\'t be scanned. Open the side panel from the page\'s tab and try again.',
+            'noAsinsOnPage': 'No ASINs or Amazon links found on this page',
+            'pageAsinsFound': '{count} unique ASIN(s) found',
+            'pageSourceAttribute': 'Product tile',
+            'pageSourceLink': 'Link',
+            'pageSourceText': 'Text',
+            'searchResults': 'Search ASIN, title or brand...',
+            'sortArrival': 'Newest first',
+            'sortInputOrder': 'Input order',
+            'sortStatus': 'Status',
+            'sortBrand': 'Brand',
+            'toggleSortOrder': 'Reverse order',
+            'clearFilters': 'Clear filters',
+            'noResultsMatchFilters': 'No results match the current filters',
+            'showTableView': 'Show as table',
+            'showCardView': 'Show as cards',
+            'columnAsin': 'ASIN',
+            'columnTitle': 'Title',
+            'columnBrand': 'Brand',
+            'columnStatus': 'Status',
+            'columnDetailedStatus': 'Detailed Status',
+            'columnMarketplace': 'Marketplace',
+            'columnCheckedAt': 'Checked At',
+            'selectAll': 'Select all',
+            'selectedCount': '{count} selected',
+            'recheck': 'Re-check',
+            'addToWatchlist': 'Add to watchlist',
+            'asinsAddedToWatchlist': '{count} ASIN(s) added to the watchlist',
+            'selectedResultsWatchlistName': 'Selected results {date}',
+            'clearSelection': 'Clear selection',
+            'listingRestrictions': 'Listing Restrictions',
+            'noListingRestrictions': 'No listing restrictions for this ASIN',
+            'noRestrictionDetails': 'No restriction details were returned for this ASIN',
+            'allConditions': 'All conditions',
+            'reasonApprovalRequired': 'Approval required',
+            'reasonAsinNotFound': 'ASIN not found',
+            'reasonNotEligible': 'Not eligible',
+            'requestApproval': 'Request approval',
+            'viewOnAmazon': 'View on Amazon',
+            'rawJson': 'Raw JSON',
+            'jsonCopied': 'JSON copied to clipboard',
+            'conditions': 'Conditions',
+            'conditionsHint': 'Check eligibility for each selected item condition. Leave all off for a standard check.',
+            'conditionNew': 'New',
+            'conditionUsed': 'Used',
+            'conditionCollectible': 'Collectible',
+            'conditionRefurbished': 'Refurbished',
+            'conditionUnknown': 'Not reported',
+            'columnConditions': 'Conditions',
+            'marketplaces': 'Marketplaces',
+            'edit': 'Edit',
+            'done': 'Done',
+            'pageBadges': 'Badges on Amazon pages',
+            'pageBadgesDesc': 'Show the eligibility of the product you are viewing on Amazon, and the results of products in search results and bestseller lists. Products without a recent result are only checked when you click their badge or the page counter, as each check uses your monthly quota.',
+            'quotaGuardTitle': 'Not enough checks left',
+            'quotaGuardSummary': '{asins} ASINs need {checks} checks, {remaining} checks remaining this month.',
+            'quotaGuardSkipRecent': 'Skip {count} ASINs checked in the last {days} days',
+            'quotaGuardTrim': 'Check only the first {count} ASINs',
+            'quotaGuardUpgrade': 'Upgrade your plan',
+            'quotaGuardStart': 'Check {count} ASINs',
+            'quotaPreviewTitle': 'Check preview',
+            'quotaPreviewSkip': 'Don\'t show this again for runs that fit my quota',
+            'quotaExceededRunStopped': 'Monthly check limit reached. Unchecked ASINs are kept for later.',
+            'unsentAsinsQuota': 'Monthly limit reached, {count} ASINs not checked',
+            'copyResults': 'Copy results',
+            'copyAsTsv': 'Copy for Sheets / Excel',
+            'copyAsMarkdown': 'Copy as Markdown table',
+            'copyAsJson': 'Copy as JSON',
+            'copySellableAsins': 'Copy sellable ASINs',
+            'copyApprovalAsins': 'Copy approval-required ASINs',
+            'copyRestrictedAsins': 'Copy restricted ASINs',
+            'resultsCopied': 'Results copied to clipboard',
+            'nothingToCopy': 'No matching results to copy',
+            'defaultCsv': 'Default CSV',
+            'manageExportTemplates': 'Manage templates',
+            'exportTemplates': 'Export templates',
+            'newExportTemplate': 'New template',
+            'exportTemplateName': 'Template name',
+            'exportDelimiter': 'Delimiter',
+            'exportDateFormat': 'Date format',
+            'exportStatusFormat': 'Status values',
+            'exportColumns': 'Columns',
+            'exportColumnHeader': 'Column header (leave empty for the default)',
+            'columnIdentifier': 'UPC/EAN',
+            'columnImage': 'Image',
+            'delimiterComma': 'Comma (,)',
+            'delimiterSemicolon': 'Semicolon (;)',
+            'delimiterTab': 'Tab',
+            'dateFormatLocale': 'Local date',
+            'dateFormatIsoDate': 'YYYY-MM-DD',
+            'dateFormatIsoDateTime': 'ISO date and time',
+            'dateFormatTimestamp': 'Unix timestamp (ms)',
+            'statusFormatText': 'Localized text',
+            'statusFormatCode': 'Raw status code',
+            'statusFormatSellable': 'Sellable (true/false)',
+            'moveUp': 'Move up',
+            'moveDown': 'Move down',
+            'exportTemplateSaved': 'Export template saved',
+            'failedToSaveExportTemplate': 'Failed to save export template',
+            'exportTemplateNameRequired': 'Enter a template name',
+            'exportTemplateColumnsRequired': 'Pick at least one column',
+            'deleteExportTemplate': 'Delete Template',
+            'areYouSureDeleteExportTemplate': 'Delete the export template "{name}"?',
+            'exportXlsx': 'Export as a formatted Excel workbook',
+            'xlsxExportedSuccessfully': 'XLSX exported successfully',
+            'failedToExportXlsx': 'Failed to export XLSX',
+            'csvUtf8Bom': 'CSV UTF-8 BOM',
+            'csvUtf8BomDesc': 'Add a byte order mark to CSV exports so Excel shows Turkish characters correctly',
+            'xlsxIncludeImages': 'Images in XLSX',
+            'xlsxIncludeImagesDesc': 'Add a column with links to the product images in XLSX exports',
+            'findAsins': 'Find ASINs',
+            'enterAtLeastOneIdentifier': 'Please enter at least one UPC, EAN or ISBN',
+            'enterValidIdentifiers': 'Please enter valid UPC, EAN or ISBN codes',
+            'invalidIdentifiersRejected': '{count} invalid code(s) skipped',
+            'rejectedIdentifiers': 'Invalid codes ({count})',
+            'searchHistory': 'Search by ASIN, UPC or marketplace...',
+            'clearHistory': 'Clear History',
+            'areYouSureClearHistory': 'Are you sure you want to delete all saved runs?',
+            'historyCleared': 'History cleared',
+            'deleteHistoryRun': 'Delete Run',
+            'areYouSureDeleteHistoryRun': 'Are you sure you want to delete this run?',
+            'delete': 'Delete',
+            'failedToLoadHistory': 'Failed to load history',
+            'failedToDeleteHistory': 'Failed to delete history',
+            'historyRunNotFound': 'This run is no longer available',
+            'historyEmpty': 'No saved runs yet',
+            'historyEmptySubtext': 'Finished checks are saved here automatically',
+            'historyNoMatches': 'No runs match your search',
+            'historyRunCancelled': 'Cancelled',
+            'historyRunStats': '{results}/{total} checked · {sellable} sellable',
+            'loadIntoCheck': 'Load into Check',
+            'compareRuns': 'Compare',
+            'compareRunsHint': 'Select two runs to compare',
+            'diffChanged': 'changed',
+            'diffUnchanged': 'unchanged',
+            'diffAdded': 'only in newer run',
+            'diffRemoved': 'only in older run',
+            'diffNoChanges': 'No ASIN changed status between these runs',
+            'diffOnlyInNewer': 'Only in newer run ({count})',
+            'diffOnlyInOlder': 'Only in older run ({count})',
+            'diffMarketplaceMismatch': 'These runs were checked in different marketplaces ({before} → {after}). Results are only compared within the same marketplace.',
+            'historyRuns': 'Runs',
+            'watchlists': 'Watchlists',
+            'newWatchlist': 'New Watchlist',
+            'watchlistName': 'Watchlist name',
+            'watchlistNameRequired': 'Please enter a watchlist name',
+            'watchlistDaily': 'Daily',
+            'watchlistWeekly': 'Weekly',
+            'watchlistCustom': 'Custom',
+            'watchlistEveryHours': 'Every {hours}h',
+            'watchlistIntervalHours': 'Interval in hours',
+            'watchlistAsinCount': '{count} ASIN(s)',
+            'watchlistCreated': 'Watchlist created',
+            'failedToSaveWatchlist': 'Failed to save watchlist',
+            'watchlistRunStarted': 'Watchlist check started',
+            'deleteWatchlist': 'Delete Watchlist',
+            'areYouSureDeleteWatchlist': 'Are you sure you want to delete "{name}"?',
+            'watchlistsEmpty': 'No watchlists yet',
+            'watchlistsEmptySubtext': 'Watchlists re-check ASINs on a schedule and notify you about status changes',
+            'watchlistPostponed': 'Postponed',
+            'watchlistLastRun': 'Last:',
+            'watchlistNextRun': 'Next:',
+            'watchlistChanges': 'Changes ({count})',
+            'watchlistRunNow': 'Run now',
+            'watchlistNoChanges': 'No status changes recorded yet',
+            'save': 'Save',
+            'failedToLookupIdentifiers': 'Failed to look up codes',
+            'noAsinsFoundForIdentifiers': 'No ASINs found for these codes',
+            'identifierMatchesTitle': '{matched} of {total} code(s) matched',
+            'identifierMultipleMatches': '{count} listings',
+            'identifierNoMatch': 'No match ({count}):',
+            'checkSelectedAsins': 'Check {count} ASIN(s)',
         
         // Settings
         'spApiSettings': 'SP-API Settings',
@@ -191,6 +390,16 @@ export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children })
         'localPath': 'Extension ID',
         'enterWebsocketUrl': 'Enter WebSocket URL',
         'enterLocalPath': 'Enter Extension ID',
+        'bulkCheckThreshold': 'Bulk Job Threshold',
+        'bulkCheckThresholdDesc': 'Lists with at least this many ASINs are checked as a bulk job with streamed results',
+        'resultDisplayThrottle': 'Show Results One by One',
+        'resultDisplayThrottleDesc': 'Reveal a result card every 600ms during a check. Turn off to show results as soon as they arrive',
+        'quotaPreview': 'Preview Checks Before a Run',
+        'quotaPreviewDesc': 'Show the ASIN count and remaining checks before every run, with the option to skip recently checked ASINs. Runs that need more checks than are left always ask first',
+        'historyRetention': 'Keep History',
+        'historyRetentionDesc': 'How long finished runs stay in the History tab',
+        'retentionDays': '{days} days',
+        'retentionForever': 'Forever',
         'failedToLoadSettings': 'Failed to load settings',
         'settingsSavedSuccessfully': 'Settings saved successfully',
         'failedToSaveSettings': 'Failed to save settings',
@@ -320,6 +529,7 @@ export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children })
         'register': 'Kayıt',
         'verification': 'Doğrulama',
         'check': 'Kontrol',
+        'history': 'Geçmiş',
         'settings': 'Ayarlar',
         'account': 'Hesap',
         'subscription': 'Abonelik',
@@ -428,6 +638,204 @@ export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children })
             'checkError': 'Hata',
             'cancel': 'İptal',
             'confirm': 'Onayla',
+            'pauseCheck': 'Duraklat',
+            'resumeCheck': 'Devam Et',
+            'checkPaused': 'Duraklatıldı:',
+            'checkCancelled': 'Kontrol iptal edildi. {count} ASIN gönderilmedi.',
+            'unsentAsins': 'Kontrol edilmedi ({count})',
+            'checkRemaining': 'Kalanları kontrol et',
+            'copy': 'Kopyala',
+            'asinsCopied': 'ASIN\'ler panoya kopyalandı',
+            'failedToCopy': 'Panoya kopyalanamadı',
+            'importDropzone': 'CSV, TSV, XLSX veya TXT dosyasını buraya bırakın ya da seçmek için tıklayın',
+            'readingFile': 'Dosya okunuyor...',
+            'importFileEmpty': 'Dosyada hiç değer yok',
+            'importFileFailed': 'Dosya okunamadı',
+            'asinColumn': 'ASIN sütunu',
+            'importValid': 'geçerli',
+            'importInvalid': 'geçersiz',
+            'importDuplicates': 'tekrar',
+            'replaceInput': 'Girişi değiştir',
+            'appendToInput': 'Girişe ekle',
+            'noValidAsinsInColumn': 'Seçili sütunda geçerli ASIN yok',
+            'asinsImported': '{count} ASIN içe aktarıldı',
+            'invalidAsinsRejected': '{count} geçersiz değer reddedildi ve gönderilmedi',
+            'rejectedAsins': 'Reddedilenler ({count})',
+            'marketplaceMismatch': '{count} bağlantı {domains} adresinden, ancak bu kontrol {marketplace} için yapılacak',
+            'checkPageAsins': 'Bu sayfadaki tüm ASIN\'leri kontrol et',
+            'scanningPage': 'Sayfa taranıyor...',
+            'pageScanFailed': 'Bu sayfa taranamıyor. Yan paneli sayfanın sekmesinden açıp tekrar deneyin.',
+            'noAsinsOnPage': 'Bu sayfada ASIN veya Amazon bağlantısı bulunamadı',
+            'pageAsinsFound': '{count} benzersiz ASIN bulundu',
+            'pageSourceAttribute': 'Ürün kutusu',
+            'pageSourceLink': 'Bağlantı',
+            'pageSourceText': 'Metin',
+            'searchResults': 'ASIN, başlık veya marka ara...',
+            'sortArrival': 'En yeni önce',
+            'sortInputOrder': 'Giriş sırası',
+            'sortStatus': 'Durum',
+            'sortBrand': 'Marka',
+            'toggleSortOrder': 'Sırayı ters çevir',
+            'clearFilters': 'Filtreleri temizle',
+            'noResultsMatchFilters': 'Mevcut filtrelerle eşleşen sonuç yok',
+            'showTableView': 'Tablo olarak göster',
+            'showCardView': 'Kart olarak göster',
+            'columnAsin': 'ASIN',
+            'columnTitle': 'Başlık',
+            'columnBrand': 'Marka',
+            'columnStatus': 'Durum',
+            'columnDetailedStatus': 'Detaylı Durum',
+            'columnMarketplace': 'Pazar Yeri',
+            'columnCheckedAt': 'Kontrol Zamanı',
+            'selectAll': 'Tümünü seç',
+            'selectedCount': '{count} seçili',
+            'recheck': 'Yeniden Kontrol Et',
+            'addToWatchlist': 'Takip listesine ekle',
+            'asinsAddedToWatchlist': '{count} ASIN takip listesine eklendi',
+            'selectedResultsWatchlistName': 'Seçili sonuçlar {date}',
+            'clearSelection': 'Seçimi temizle',
+            'listingRestrictions': 'Listeleme Kısıtlamaları',
+            'noListingRestrictions': 'Bu ASIN için listeleme kısıtlaması yok',
+            'noRestrictionDetails': 'Bu ASIN için kısıtlama ayrıntısı dönmedi',
+            'allConditions': 'Tüm durumlar',
+            'reasonApprovalRequired': 'Onay gerekli',
+            'reasonAsinNotFound': 'ASIN bulunamadı',
+            'reasonNotEligible': 'Uygun değil',
+            'requestApproval': 'Onay iste',
+            'viewOnAmazon': 'Amazon\'da görüntüle',
+            'rawJson': 'Ham JSON',
+            'jsonCopied': 'JSON panoya kopyalandı',
+            'conditions': 'Durumlar',
+            'conditionsHint': 'Seçilen her ürün durumu için uygunluğu kontrol edin. Standart kontrol için hiçbirini seçmeyin.',
+            'conditionNew': 'Yeni',
+            'conditionUsed': 'İkinci El',
+            'conditionCollectible': 'Koleksiyonluk',
+            'conditionRefurbished': 'Yenilenmiş',
+            'conditionUnknown': 'Bildirilmedi',
+            'columnConditions': 'Durumlar',
+            'marketplaces': 'Pazar Yerleri',
+            'edit': 'Düzenle',
+            'done': 'Tamam',
+            'pageBadges': 'Amazon sayfalarında rozetler',
+            'pageBadgesDesc': 'Amazon\'da görüntülediğiniz ürünün uygunluğunu ve arama sonuçları ile çok satanlar listelerindeki ürünlerin sonuçlarını gösterir. Her kontrol aylık kotanızdan kullanıldığı için yakın zamanda sonucu olmayan ürünler yalnızca rozetlerine veya sayfa sayacına tıkladığınızda kontrol edilir.',
+            'quotaGuardTitle': 'Yeterli kontrol hakkı yok',
+            'quotaGuardSummary': '{asins} ASIN için {checks} kontrol gerekiyor, bu ay {remaining} kontrol hakkı kaldı.',
+            'quotaGuardSkipRecent': 'Son {days} günde kontrol edilen {count} ASIN\'i atla',
+            'quotaGuardTrim': 'Yalnızca ilk {count} ASIN\'i kontrol et',
+            'quotaGuardUpgrade': 'Planınızı yükseltin',
+            'quotaGuardStart': '{count} ASIN kontrol et',
+            'quotaPreviewTitle': 'Kontrol önizlemesi',
+            'quotaPreviewSkip': 'Kotama sığan kontrollerde bunu bir daha gösterme',
+            'quotaExceededRunStopped': 'Aylık kontrol limitine ulaşıldı. Kontrol edilmeyen ASIN\'ler daha sonrası için saklandı.',
+            'unsentAsinsQuota': 'Aylık limite ulaşıldı, {count} ASIN kontrol edilmedi',
+            'copyResults': 'Sonuçları kopyala',
+            'copyAsTsv': 'Sheets / Excel için kopyala',
+            'copyAsMarkdown': 'Markdown tablosu olarak kopyala',
+            'copyAsJson': 'JSON olarak kopyala',
+            'copySellableAsins': 'Satılabilir ASIN\'leri kopyala',
+            'copyApprovalAsins': 'Onay gerektiren ASIN\'leri kopyala',
+            'copyRestrictedAsins': 'Kısıtlı ASIN\'leri kopyala',
+            'resultsCopied': 'Sonuçlar panoya kopyalandı',
+            'nothingToCopy': 'Kopyalanacak uygun sonuç yok',
+            'defaultCsv': 'Varsayılan CSV',
+            'manageExportTemplates': 'Şablonları yönet',
+            'exportTemplates': 'Dışa aktarma şablonları',
+            'newExportTemplate': 'Yeni şablon',
+            'exportTemplateName': 'Şablon adı',
+            'exportDelimiter': 'Ayraç',
+            'exportDateFormat': 'Tarih biçimi',
+            'exportStatusFormat': 'Durum değerleri',
+            'exportColumns': 'Sütunlar',
+            'exportColumnHeader': 'Sütun başlığı (varsayılan için boş bırakın)',
+            'columnIdentifier': 'UPC/EAN',
+            'columnImage': 'Görsel',
+            'delimiterComma': 'Virgül (,)',
+            'delimiterSemicolon': 'Noktalı virgül (;)',
+            'delimiterTab': 'Sekme',
+            'dateFormatLocale': 'Yerel tarih',
+            'dateFormatIsoDate': 'YYYY-AA-GG',
+            'dateFormatIsoDateTime': 'ISO tarih ve saat',
+            'dateFormatTimestamp': 'Unix zaman damgası (ms)',
+            'statusFormatText': 'Yerelleştirilmiş metin',
+            'statusFormatCode': 'Ham durum kodu',
+            'statusFormatSellable': 'Satılabilir (true/false)',
+            'moveUp': 'Yukarı taşı',
+            'moveDown': 'Aşağı taşı',
+            'exportTemplateSaved': 'Dışa aktarma şablonu kaydedildi',
+            'failedToSaveExportTemplate': 'Dışa aktarma şablonu kaydedilemedi',
+            'exportTemplateNameRequired': 'Bir şablon adı girin',
+            'exportTemplateColumnsRequired': 'En az bir sütun seçin',
+            'deleteExportTemplate': 'Şablonu Sil',
+            'areYouSureDeleteExportTemplate': '"{name}" dışa aktarma şablonu silinsin mi?',
+            'exportXlsx': 'Biçimlendirilmiş Excel çalışma kitabı olarak dışa aktar',
+            'xlsxExportedSuccessfully': 'XLSX başarıyla dışa aktarıldı',
+            'failedToExportXlsx': 'XLSX dışa aktarılamadı',
+            'csvUtf8Bom': 'CSV UTF-8 BOM',
+            'csvUtf8BomDesc': 'Excel\'in Türkçe karakterleri doğru göstermesi için CSV dosyalarına bayt sırası işareti ekle',
+            'xlsxIncludeImages': 'XLSX\'te görseller',
+            'xlsxIncludeImagesDesc': 'XLSX dosyalarına ürün görsellerinin bağlantılarını içeren bir sütun ekle',
+            'findAsins': 'ASIN Bul',
+            'enterAtLeastOneIdentifier': 'Lütfen en az bir UPC, EAN veya ISBN girin',
+            'enterValidIdentifiers': 'Lütfen geçerli UPC, EAN veya ISBN kodları girin',
+            'invalidIdentifiersRejected': '{count} geçersiz kod atlandı',
+            'rejectedIdentifiers': 'Geçersiz kodlar ({count})',
+            'searchHistory': 'ASIN, UPC veya pazaryeri ile ara...',
+            'clearHistory': 'Geçmişi Temizle',
+            'areYouSureClearHistory': 'Kaydedilen tüm kontrolleri silmek istediğinizden emin misiniz?',
+            'historyCleared': 'Geçmiş temizlendi',
+            'deleteHistoryRun': 'Kontrolü Sil',
+            'areYouSureDeleteHistoryRun': 'Bu kontrolü silmek istediğinizden emin misiniz?',
+            'delete': 'Sil',
+            'failedToLoadHistory': 'Geçmiş yüklenemedi',
+            'failedToDeleteHistory': 'Geçmiş silinemedi',
+            'historyRunNotFound': 'Bu kontrol artık mevcut değil',
+            'historyEmpty': 'Henüz kaydedilmiş kontrol yok',
+            'historyEmptySubtext': 'Tamamlanan kontroller burada otomatik olarak saklanır',
+            'historyNoMatches': 'Aramanızla eşleşen kontrol yok',
+            'historyRunCancelled': 'İptal edildi',
+            'historyRunStats': '{results}/{total} kontrol edildi · {sellable} satılabilir',
+            'loadIntoCheck': 'Kontrole Yükle',
+            'compareRuns': 'Karşılaştır',
+            'compareRunsHint': 'Karşılaştırmak için iki kontrol seçin',
+            'diffChanged': 'değişti',
+            'diffUnchanged': 'aynı',
+            'diffAdded': 'sadece yeni kontrolde',
+            'diffRemoved': 'sadece eski kontrolde',
+            'diffNoChanges': 'Bu kontroller arasında durumu değişen ASIN yok',
+            'diffOnlyInNewer': 'Sadece yeni kontrolde ({count})',
+            'diffOnlyInOlder': 'Sadece eski kontrolde ({count})',
+            'diffMarketplaceMismatch': 'Bu kontroller farklı pazaryerlerinde yapıldı ({before} → {after}). Sonuçlar yalnızca aynı pazaryeri içinde karşılaştırılır.',
+            'historyRuns': 'Kontroller',
+            'watchlists': 'Takip Listeleri',
+            'newWatchlist': 'Yeni Takip Listesi',
+            'watchlistName': 'Takip listesi adı',
+            'watchlistNameRequired': 'Lütfen bir takip listesi adı girin',
+            'watchlistDaily': 'Günlük',
+            'watchlistWeekly': 'Haftalık',
+            'watchlistCustom': 'Özel',
+            'watchlistEveryHours': '{hours} saatte bir',
+            'watchlistIntervalHours': 'Saat cinsinden aralık',
+            'watchlistAsinCount': '{count} ASIN',
+            'watchlistCreated': 'Takip listesi oluşturuldu',
+            'failedToSaveWatchlist': 'Takip listesi kaydedilemedi',
+            'watchlistRunStarted': 'Takip listesi kontrolü başladı',
+            'deleteWatchlist': 'Takip Listesini Sil',
+            'areYouSureDeleteWatchlist': '"{name}" listesini silmek istediğinizden emin misiniz?',
+            'watchlistsEmpty': 'Henüz takip listesi yok',
+            'watchlistsEmptySubtext': 'Takip listeleri ASIN\'leri düzenli olarak kontrol eder ve durum değişikliklerini bildirir',
+            'watchlistPostponed': 'Ertelendi',
+            'watchlistLastRun': 'Son:',
+            'watchlistNextRun': 'Sonraki:',
+            'watchlistChanges': 'Değişiklikler ({count})',
+            'watchlistRunNow': 'Şimdi çalıştır',
+            'watchlistNoChanges': 'Henüz durum değişikliği kaydedilmedi',
+            'save': 'Kaydet',
+            'failedToLookupIdentifiers': 'Kodlar aranamadı',
+            'noAsinsFoundForIdentifiers': 'Bu kodlar için ASIN bulunamadı',
+            'identifierMatchesTitle': '{total} koddan {matched} tanesi eşleşti',
+            'identifierMultipleMatches': '{count} ürün',
+            'identifierNoMatch': 'Eşleşme yok ({count}):',
+            'checkSelectedAsins': '{count} ASIN kontrol et',
         
         // Settings
         'spApiSettings': 'SP-API Ayarları',
@@ -453,6 +861,16 @@ export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children })
         'localPath': 'Uzantı ID',
         'enterWebsocketUrl': 'WebSocket URL girin',
         'enterLocalPath': 'Uzantı ID girin',
+        'bulkCheckThreshold': 'Toplu İş Eşiği',
+        'bulkCheckThresholdDesc': 'En az bu sayıda ASIN içeren listeler, sonuçları akışla gelen toplu iş olarak kontrol edilir',
+        'resultDisplayThrottle': 'Sonuçları Tek Tek Göster',
+        'resultDisplayThrottleDesc': 'Kontrol sırasında her 600ms\'de bir sonuç kartı göster. Sonuçları gelir gelmez göstermek için kapatın',
+        'quotaPreview': 'Kontrolden Önce Önizle',
+        'quotaPreviewDesc': 'Her kontrolden önce ASIN sayısını ve kalan kontrol hakkını göster, yakın zamanda kontrol edilen ASIN\'leri atlama seçeneği sun. Kalandan fazla kontrol gerektiren çalıştırmalar her zaman önce sorar',
+        'historyRetention': 'Geçmişi Sakla',
+        'historyRetentionDesc': 'Tamamlanan kontrollerin Geçmiş sekmesinde ne kadar kalacağı',
+        'retentionDays': '{days} gün',
+        'retentionForever': 'Süresiz',
         'failedToLoadSettings': 'Ayarlar yüklenemedi',
         'settingsSavedSuccessfully': 'Ayarlar başarıyla kaydedildi',
         'failedToSaveSettings': 'Ayarlar kaydedilemedi',
@@ -140,7 +140,7 @@ export function Verification({ switchTab }: VerificationProps) {
       clearInterval(resendTimerRef.current);
     }
     
-    resendTimerRef.current = setInterval(() => {
+    resendTimerRef.current = window.setInterval(() => {
       setResendTimeLeft((prev) => {
         if (prev <= 1) {
           setCanResend(true);
@@ -1,37 +1,118 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { useToast } from '../../contexts/ToastContext';
 import { useModal } from '../../contexts/ModalContext';
 import { useSubscription } from '../../contexts/SubscriptionContext';
+import { useAppContext } from '../../contexts/AppContext';
+import {
+  CheckJobSummary,
+  CheckResult,
+  IdentifierMatch,
+  IdentifierType,
+  ItemCondition,
+  ResultFilters,
+  ResultView
+} from '../../types/check';
+import { ExportTemplate } from '../../types/exportTemplate';
+import {
+  CHECK_JOB_PORT,
+  CheckJobEvent,
+  PENDING_ASIN_DETAILS_KEY,
+  PENDING_PANEL_COMMAND_KEY,
+  PanelCommand,
+  PendingAsinDetails,
+  PendingPanelCommand
+} from '../../types/messages';
+import { sendToBackground } from '../../utils/backgroundMessaging';
+import {
+  getCheckConditions,
+  getCheckMarketplaces,
+  getCsvUtf8Bom,
+  getQuotaPreview,
+  getResultDisplayThrottle,
+  getResultView,
+  getXlsxIncludeImages,
+  saveCheckConditions,
+  saveCheckMarketplaces,
+  saveResultView
+} from '../../utils/checkPreferences';
+import { parseAsinInput } from '../../utils/asin';
+import { ParsedIdentifier, parseIdentifierInput } from '../../utils/identifier';
+import { getMarketplaceDomain } from '../../utils/marketplaces';
+import { buildMatrixCsv, getRunCheckCount, isMultiMarketplaceRun } from '../../utils/marketplaceMatrix';
+import { buildResultsCsv, downloadFile, getExportFileName } from '../../utils/resultExport';
+import { buildTemplateCsv } from '../../utils/exportTemplates';
+import { CopyFormat, buildClipboardText } from '../../utils/resultClipboard';
+import { getQuotaStatus } from '../../utils/quota';
+import { XLSX_MIME_TYPE, buildMatrixXlsx, buildResultsXlsx } from '../../utils/xlsxExport';
+import { DEFAULT_RESULT_FILTERS, applyResultFilters, countByStatus, isFilterActive } from '../../utils/resultFilters';
+import { AsinInput } from '../../components/check/AsinInput';
+import { ConditionPicker } from '../../components/check/ConditionPicker';
+import { MarketplacePicker } from '../../components/check/MarketplacePicker';
+import { MarketplaceMatrix } from '../../components/check/MarketplaceMatrix';
+import { FileImport } from '../../components/check/FileImport';
+import { PageScan } from '../../components/check/PageScan';
+import { IdentifierMatches } from '../../components/check/IdentifierMatches';
+import { RESULT_ROW_HEIGHT, ResultCard } from '../../components/check/ResultCard';
+import { VirtualList } from '../../components/common/VirtualList';
+import { ResultsToolbar } from '../../components/check/ResultsToolbar';
+import { ResultsTable } from '../../components/check/ResultsTable';
+import { ResultsBulkBar } from '../../components/check/ResultsBulkBar';
+import { ResultDetailDrawer } from '../../components/check/ResultDetailDrawer';
+import { ExportMenu } from '../../components/check/ExportMenu';
+import { CopyMenu } from '../../components/check/CopyMenu';
+import { QuotaGuardDialog } from '../../components/check/QuotaGuardDialog';
+import { ExportTemplatesDialog } from '../../components/check/ExportTemplatesDialog';
 import './Check.css';
 
 // Import apiClient and authService
 declare const apiClient: any;
 declare const authService: any;
 
-interface CheckResult {
-  asin: string;
-  title?: string;
-  brand?: string;
-  status: string;
-  detailedStatus?: string;
-  sellable?: boolean;
-  error?: string;
-  details?: {
-    title?: string;
-    brand?: string;
-    itemName?: string;
-    brandName?: string;
-    imageUrl?: string;
-  };
-  imageUrl?: string;
+// Counters of the run currently being displayed
+interface RunCounts {
+  processed: number;
+  total: number;
+  success: number;
+  warning: number;
+  error: number;
 }
 
+interface FinishedRun {
+  status: 'completed' | 'cancelled';
+  processed: number;
+  unsent: number;
+}
+
+// Run waiting on the quota dialog
+interface PendingRun {
+  uniqueAsins: string[];
+  originalOrder: string[];
+  identifiers?: Record<string, string[]>;
+  remaining: number;
+}
+
+type InputMode = 'asin' | 'identifier';
+
+// Results themselves are persisted by the background check job
+const CHECK_STORAGE_KEYS = ['check_input_text', 'check_timestamp'];
+
+// Codes sent per catalog lookup request
+const IDENTIFIER_LOOKUP_CHUNK = 20;
+
+// Wait before reattaching to a worker that was stopped
+const PORT_RECONNECT_DELAY = 500;
+
+const isJobActive = (job: CheckJobSummary | null) => {
+  return job?.status === 'running' || job?.status === 'paused';
+};
+
 export function Check() {
   const { t, currentLanguage } = useLanguage();
   const { showToast } = useToast();
   const { showModal } = useModal();
-  const { refreshData } = useSubscription();
+  const { subscriptionData, refreshData } = useSubscription();
+  const { switchTab } = useAppContext();
   
   const [asinInput, setAsinInput] = useState('');
   const [results, setResults] = useState<CheckResult[]>([]);
@@ -39,22 +120,258 @@ export function Check() {
   const [inputAsinOrder, setInputAsinOrder] = useState<string[]>([]);
   const [isAnimating, setIsAnimating] = useState(false);
   const [hasValidSettings, setHasValidSettings] = useState(false);
+  // Settings and the saved input are loaded; shortcut actions wait for both
+  const [isInputRestored, setIsInputRestored] = useState(false);
+  const [panelCommand, setPanelCommand] = useState<PanelCommand | null>(null);
+  const [marketplace, setMarketplace] = useState('');
   const [progress, setProgress] = useState({ processed: 0, total: 0, success: 0, warning: 0, error: 0 });
+  const [job, setJob] = useState<CheckJobSummary | null>(null);
+  const [finishedRun, setFinishedRun] = useState<FinishedRun | null>(null);
+  const [rejectedTokens, setRejectedTokens] = useState<string[]>([]);
+  const [inputMode, setInputMode] = useState<InputMode>('asin');
+  const [isResolving, setIsResolving] = useState(false);
+  const [identifierMatches, setIdentifierMatches] = useState<IdentifierMatch[] | null>(null);
+  const [resultFilters, setResultFilters] = useState<ResultFilters>(DEFAULT_RESULT_FILTERS);
+  const [resultView, setResultView] = useState<ResultView>('cards');
+  const [selectedAsins, setSelectedAsins] = useState<Set<string>>(new Set());
+  const [detailResult, setDetailResult] = useState<CheckResult | null>(null);
+  const [showExportTemplates, setShowExportTemplates] = useState(false);
+  const [quotaGuardRun, setQuotaGuardRun] = useState<PendingRun | null>(null);
+  const [conditions, setConditions] = useState<ItemCondition[]>([]);
+  const [checkMarketplaces, setCheckMarketplaces] = useState<string[]>([]);
+
+  // ✅ QUEUE SYSTEM: Results streamed from the background job wait here for the display loop
+  const jobRef = useRef<CheckJobSummary | null>(null);
+  const displayQueueRef = useRef<CheckResult[]>([]);
+  const runActiveRef = useRef(false);
+  const countsRef = useRef<RunCounts>({ processed: 0, total: 0, success: 0, warning: 0, error: 0 });
+  const throttleResultsRef = useRef(true);
+  // Latest handler, so the port listener never sees stale state or contexts
+  const handleJobEventRef = useRef<(event: CheckJobEvent) => void>(() => {});
+
+  const isPaused = job?.status === 'paused';
+  const unsentAsins = job?.status === 'cancelled' ? job.unsentAsins : [];
+  const parsedInput = useMemo(() => parseAsinInput(asinInput), [asinInput]);
+  const parsedIdentifiers = useMemo(() => parseIdentifierInput(asinInput), [asinInput]);
+  const isIdentifierMode = inputMode === 'identifier';
+  const isMultiMarketplace = isMultiMarketplaceRun(job);
+  const visibleResults = useMemo(() => {
+    return applyResultFilters(results, resultFilters, inputAsinOrder);
+  }, [results, resultFilters, inputAsinOrder]);
+  const statusCounts = useMemo(() => countByStatus(results), [results]);
+  // Bulk actions only apply to selected rows the filters still show
+  const selectedResults = useMemo(() => {
+    return visibleResults.filter(result => selectedAsins.has(result.asin));
+  }, [visibleResults, selectedAsins]);
+
+  // Marketplaces the next run checks: those picked for the run, else the one from Settings
+  const runMarketplaces = useMemo(() => {
+    if (checkMarketplaces.length > 0) return checkMarketplaces;
+    return marketplace ? [marketplace] : [];
+  }, [checkMarketplaces, marketplace]);
+
+  // Links pasted from a marketplace the run won't check
+  const mismatchedLinks = useMemo(() => {
+    if (isIdentifierMode || runMarketplaces.length === 0) return [];
+    return parsedInput.tokens.filter(token => token.valid && token.marketplace && !runMarketplaces.includes(token.marketplace));
+  }, [parsedInput, runMarketplaces, isIdentifierMode]);
+
+  // Load saved input from storage on mount
+  useEffect(() => {
+    Promise.all([checkSettings(), loadSavedInput()]).then(() => setIsInputRestored(true));
+    getResultDisplayThrottle().then(enabled => {
+      throttleResultsRef.current = enabled;
+    });
+    getResultView().then(setResultView);
+    getCheckConditions().then(setConditions);
+    getCheckMarketplaces().then(setCheckMarketplaces);
+  }, []);
+
+  // A badge clicked on an Amazon page leaves its ASIN here to be shown
+  useEffect(() => {
+    const showPendingDetails = async () => {
+      const data = await chrome.storage.local.get([PENDING_ASIN_DETAILS_KEY]);
+      const pending: PendingAsinDetails | undefined = data[PENDING_ASIN_DETAILS_KEY];
+      if (!pending) return;
+      await chrome.storage.local.remove(PENDING_ASIN_DETAILS_KEY);
+      if (pending.result) {
+        setDetailResult(pending.result);
+      } else {
+        // Nothing known about it yet; queue it for a check instead
+        setInputMode('asin');
+        setAsinInput(pending.asin);
+      }
+    };
+
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && changes[PENDING_ASIN_DETAILS_KEY]?.newValue) {
+        showPendingDetails();
+      }
+    };
+
+    showPendingDetails();
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, []);
+
+  // Keyboard shortcuts leave their action here (see background/shortcuts)
+  useEffect(() => {
+    const takePendingCommand = async () => {
+      const data = await chrome.storage.local.get([PENDING_PANEL_COMMAND_KEY]);
+      const pending: PendingPanelCommand | undefined = data[PENDING_PANEL_COMMAND_KEY];
+      if (!pending) return;
+      await chrome.storage.local.remove(PENDING_PANEL_COMMAND_KEY);
+      setPanelCommand(pending.command);
+    };
+
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && changes[PENDING_PANEL_COMMAND_KEY]?.newValue) {
+        takePendingCommand();
+      }
+    };
+
+    takePendingCommand();
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, []);
 
-  // Load saved results from storage on mount
   useEffect(() => {
-    checkSettings();
-    loadSavedResults();
+    if (!panelCommand || !isInputRestored) return;
+    setPanelCommand(null);
+    switch (panelCommand) {
+      case 'focusInput':
+        document.getElementById('asinInput')?.focus();
+        break;
+      case 'startCheck':
+        if (isLoading || isResolving) break;
+        if (!hasValidSettings) {
+          showToast(t('pleaseConfigureSettings'), 'error');
+        } else if (isIdentifierMode) {
+          handleFindAsins();
+        } else {
+          handleCheckAsins();
+        }
+        break;
+      case 'exportResults':
+        handleExportCSV();
+        break;
+    }
+  }, [panelCommand, isInputRestored]);
+
+  // A new run or cleared results drop the row selection
+  const hasResults = results.length > 0;
+  useEffect(() => {
+    if (!hasResults) {
+      setSelectedAsins(new Set());
+    }
+  }, [hasResults]);
+
+  // Attach to the background check job; it keeps running when the panel closes.
+  // The port closes whenever the worker is stopped, so reconnect - the snapshot
+  // sent on attach brings the panel back in sync
+  useEffect(() => {
+    let port: chrome.runtime.Port | null = null;
+    let reconnectTimer: number | undefined;
+
+    const connect = () => {
+      port = chrome.runtime.connect({ name: CHECK_JOB_PORT });
+      port.onMessage.addListener((event: CheckJobEvent) => handleJobEventRef.current(event));
+      port.onDisconnect.addListener(() => {
+        port = null;
+        reconnectTimer = window.setTimeout(connect, PORT_RECONNECT_DELAY);
+      });
+    };
+
+    connect();
+    return () => {
+      window.clearTimeout(reconnectTimer);
+      port?.disconnect();
+    };
   }, []);
 
-  // Save results and input to storage whenever they change (debounced)
+  // ✅ DISPLAY LOOP: Show queued results with constant 600ms interval
   useEffect(() => {
-    if (results.length > 0 || asinInput.trim()) {
+    let stopped = false;
+
+    const displayLoop = async () => {
+      while (!stopped) {
+        const currentJob = jobRef.current;
+        const queue = displayQueueRef.current;
+
+        if (!runActiveRef.current || currentJob?.status === 'paused' || queue.length === 0) {
+          if (runActiveRef.current && currentJob && !isJobActive(currentJob) && queue.length === 0) {
+            finishRun(currentJob);
+          }
+          await new Promise(resolve => setTimeout(resolve, 100));
+          continue;
+        }
+
+        if (currentJob?.status === 'cancelled' || !throttleResultsRef.current) {
+          // Cancelled (or throttle turned off in Settings): show queued results at once
+          const remaining = queue.splice(0, queue.length);
+          remaining.forEach(countResult);
+          setResults(prev => [...remaining.reverse(), ...prev]);
+          updateProgress();
+          continue;
+        }
+
+        const asinResult = queue.shift()!;
+        console.log(`✅ Displaying result for ${asinResult.asin}`);
+
+        // Add result to UI
+        setResults(prev => [asinResult, ...prev]);
+
+        // Auto scroll to top
+        setTimeout(() => {
+          const resultsContainer = document.getElementById('results');
+          if (resultsContainer) {
+            resultsContainer.scrollTop = 0;
+          }
+        }, 50);
+
+        countResult(asinResult);
+        updateProgress();
+
+        // ✅ CONSTANT INTERVAL: Always wait 600ms between cards
+        await new Promise(resolve => setTimeout(resolve, 600));
+      }
+    };
+
+    displayLoop();
+    return () => {
+      stopped = true;
+    };
+  }, []);
+
+  // Report a finished run once the display loop has caught up
+  useEffect(() => {
+    if (!finishedRun) return;
+
+    if (finishedRun.status === 'cancelled') {
+      showToast(
+        t('checkCancelled').replace('{count}', finishedRun.unsent.toString()),
+        'info'
+      );
+    } else {
+      showToast(
+        t('checkedAsinsSuccessfully')?.replace('{count}', finishedRun.processed.toString()) ||
+        `Successfully checked ${finishedRun.processed} ASIN(s)`,
+        'success'
+      );
+    }
+
+    // Update usage data
+    refreshData().catch(error => {
+      console.error('Error refreshing subscription data:', error);
+    });
+  }, [finishedRun]);
+
+  // Save input to storage whenever it changes (debounced)
+  useEffect(() => {
+    if (asinInput.trim()) {
       // Debounce storage writes to avoid excessive updates
       const timeoutId = setTimeout(() => {
         chrome.storage.local.set({
-          'check_results': results,
-          'check_input_order': inputAsinOrder,
           'check_input_text': asinInput,
           'check_timestamp': Date.now()
         });
@@ -62,31 +379,139 @@ export function Check() {
 
       return () => clearTimeout(timeoutId);
     }
-  }, [results, inputAsinOrder, asinInput]);
+  }, [asinInput]);
 
-  const loadSavedResults = async () => {
+  const loadSavedInput = async () => {
     try {
-      const data = await chrome.storage.local.get(['check_results', 'check_input_order', 'check_input_text', 'check_timestamp']);
-      if (data.check_results && data.check_results.length > 0) {
+      const data = await chrome.storage.local.get(CHECK_STORAGE_KEYS);
+      if (data.check_input_text) {
         // Only load if less than 24 hours old
         const timestamp = data.check_timestamp || 0;
         const age = Date.now() - timestamp;
         const maxAge = 24 * 60 * 60 * 1000; // 24 hours
 
         if (age < maxAge) {
-          setResults(data.check_results);
-          setInputAsinOrder(data.check_input_order || []);
-          setAsinInput(data.check_input_text || '');
+          setAsinInput(data.check_input_text);
         } else {
-          // Clear old results
-          chrome.storage.local.remove(['check_results', 'check_input_order', 'check_input_text', 'check_timestamp']);
+          // Clear old input
+          chrome.storage.local.remove(CHECK_STORAGE_KEYS);
         }
       }
     } catch (error) {
-      console.error('Error loading saved results:', error);
+      console.error('Error loading saved input:', error);
     }
   };
 
+  const countResult = (asinResult: CheckResult) => {
+    const counts = countsRef.current;
+    counts.processed++;
+
+    // Update counters
+    if (asinResult.detailedStatus === 'NOT_FOUND_IN_MARKETPLACE') {
+      // Don't count "not found" in statistics
+    } else if (asinResult.sellable) {
+      counts.success++;
+    } else if (asinResult.detailedStatus?.includes('APPROVAL')) {
+      counts.warning++;
+    } else {
+      counts.error++;
+    }
+  };
+
+  const updateProgress = () => {
+    const counts = countsRef.current;
+    setProgress({
+      ...counts,
+      // Batches that returned nothing count as errors
+      error: counts.error + (jobRef.current?.failedCount || 0)
+    });
+  };
+
+  // Starts displaying a run; results already shown are counted right away
+  const beginRun = (runJob: CheckJobSummary, shownResults: CheckResult[]) => {
+    countsRef.current = { processed: 0, total: getRunCheckCount(runJob), success: 0, warning: 0, error: 0 };
+    shownResults.forEach(countResult);
+    runActiveRef.current = true;
+    setIsLoading(true);
+    setIsAnimating(true);
+    updateProgress();
+  };
+
+  const finishRun = (runJob: CheckJobSummary) => {
+    runActiveRef.current = false;
+    setIsAnimating(false);
+    setIsLoading(false);
+    setFinishedRun({
+      status: runJob.status === 'cancelled' ? 'cancelled' : 'completed',
+      processed: countsRef.current.processed,
+      unsent: runJob.unsentAsins.length
+    });
+  };
+
+  const handleJobEvent = (event: CheckJobEvent) => {
+    switch (event.type) {
+      case 'JOB_SNAPSHOT': {
+        displayQueueRef.current = [];
+        runActiveRef.current = false;
+        if (!event.job) {
+          jobRef.current = null;
+          setJob(null);
+          setResults([]);
+          setInputAsinOrder([]);
+          setIsLoading(false);
+          setIsAnimating(false);
+          return;
+        }
+
+        const { results: jobResults, ...rest } = event.job;
+        const summary: CheckJobSummary = { ...rest, resultCount: jobResults.length };
+        jobRef.current = summary;
+        setJob(summary);
+        setResults([...jobResults].reverse());
+        setInputAsinOrder(summary.inputOrder);
+        if (isJobActive(summary)) {
+          beginRun(summary, jobResults);
+        }
+        break;
+      }
+      case 'JOB_STATE': {
+        const previous = jobRef.current;
+        jobRef.current = event.job;
+        setJob(event.job);
+
+        if (event.job.quotaExceeded && !previous?.quotaExceeded) {
+          showToast(t('quotaExceededRunStopped'), 'error');
+          refreshData();
+        }
+
+        if (isJobActive(event.job) && !runActiveRef.current) {
+          if (previous?.id !== event.job.id) {
+            // A new run replaces the previous results
+            displayQueueRef.current = [];
+            setResults([]);
+            setInputAsinOrder(event.job.inputOrder);
+          }
+          beginRun(event.job, []);
+        } else if (runActiveRef.current) {
+          updateProgress();
+        }
+        break;
+      }
+      case 'JOB_RESULTS':
+        if (event.jobId === jobRef.current?.id) {
+          displayQueueRef.current.push(...event.results);
+        }
+        break;
+      case 'USAGE_UPDATED':
+        // Update usage data
+        window.dispatchEvent(new CustomEvent('usageUpdated', {
+          detail: event.usage
+        }));
+        break;
+    }
+  };
+  handleJobEventRef.current = handleJobEvent;
+
   const checkSettings = async () => {
     try {
       const result = await apiClient.getSettings();
@@ -98,6 +523,7 @@ export function Check() {
                        settings.sellerId && 
                        settings.marketplace;
         setHasValidSettings(!!isValid);
+        setMarketplace(settings.marketplace || '');
       } else {
         setHasValidSettings(false);
       }
@@ -107,8 +533,14 @@ export function Check() {
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setAsinInput(e.target.value);
+  const handleInputChange = (value: string) => {
+    setAsinInput(value);
+  };
+
+  const handleImportAsins = (importedAsins: string[], replace: boolean) => {
+    const importedText = importedAsins.join('\n');
+    setAsinInput(prev => (replace || !prev.trim() ? importedText : `${prev.trimEnd()}\n${importedText}`));
+    showToast(t('asinsImported').replace('{count}', importedAsins.length.toString()), 'success');
   };
 
   const handleCheckAsins = async () => {
@@ -117,16 +549,19 @@ export function Check() {
       return;
     }
 
-    const asins = asinInput
-      .split(/[\s,]+/)
-      .map(asin => asin.trim())
-      .filter(asin => asin.length > 0);
+    // ✅ VALIDATION: Only well-formed ASINs are sent; the rest are reported as rejected
+    const { asins, rejected } = parsedInput;
+    setRejectedTokens(rejected);
 
     if (asins.length === 0) {
       showToast(t('enterValidAsins'), 'error');
       return;
     }
 
+    if (rejected.length > 0) {
+      showToast(t('invalidAsinsRejected').replace('{count}', rejected.length.toString()), 'warning');
+    }
+
     // ✅ DUPLICATE FILTER: Remove duplicates but keep original order
     const originalOrder = asins; // Store original order for CSV export
     const uniqueAsins = [...new Set(asins)]; // Remove duplicates
@@ -140,6 +575,41 @@ export function Check() {
       );
     }
 
+    await startCheck(uniqueAsins, originalOrder);
+  };
+
+  // ✅ QUOTA: runs are previewed against the checks left this month; a run that
+  // needs more than that always asks, others only while the preview is on
+  const startCheck = async (uniqueAsins: string[], originalOrder: string[], identifiers?: Record<string, string[]>) => {
+    const quota = subscriptionData ? getQuotaStatus(subscriptionData) : null;
+    const checksPerAsin = Math.max(1, checkMarketplaces.length);
+    const exceedsQuota = !!quota && uniqueAsins.length * checksPerAsin > quota.remaining;
+    if (quota && (exceedsQuota || await getQuotaPreview())) {
+      setQuotaGuardRun({ uniqueAsins, originalOrder, identifiers, remaining: quota.remaining });
+      return;
+    }
+    await runCheck(uniqueAsins, originalOrder, identifiers);
+  };
+
+  // Runs the ASINs kept in the quota dialog, in their original order
+  const handleQuotaGuardConfirm = async (asins: string[]) => {
+    if (!quotaGuardRun) return;
+    const { originalOrder, identifiers } = quotaGuardRun;
+    const kept = new Set(asins);
+    const keptIdentifiers = identifiers
+      ? Object.fromEntries(Object.entries(identifiers).filter(([asin]) => kept.has(asin)))
+      : undefined;
+    setQuotaGuardRun(null);
+    await runCheck(asins, originalOrder.filter(asin => kept.has(asin)), keptIdentifiers);
+  };
+
+  const handleUpgrade = () => {
+    setQuotaGuardRun(null);
+    switchTab('subscription');
+  };
+
+  // Hands a validated, duplicate-free ASIN list to the background check job
+  const runCheck = async (uniqueAsins: string[], originalOrder: string[], identifiers?: Record<string, string[]>) => {
     // Store the ORIGINAL input order for CSV export (with duplicates)
     setInputAsinOrder(originalOrder);
 
@@ -147,12 +617,24 @@ export function Check() {
     setResults([]); // Clear previous results
     setIsAnimating(true);
 
-    // Clear old results from storage when starting new check
-    chrome.storage.local.remove(['check_results', 'check_input_order', 'check_input_text', 'check_timestamp']);
+    // Clear old input from storage when starting new check
+    chrome.storage.local.remove(CHECK_STORAGE_KEYS);
 
     try {
-      // Process UNIQUE ASINs (no duplicates checked)
-      await processAsinsRealtime(uniqueAsins, originalOrder);
+      // Process UNIQUE ASINs (no duplicates checked) in the background worker
+      const response = await sendToBackground({
+        type: 'START_CHECK',
+        asins: uniqueAsins,
+        inputOrder: originalOrder,
+        identifiers,
+        // A marketplace picked on this page overrides the one from Settings
+        marketplace: checkMarketplaces[0] || marketplace,
+        marketplaces: checkMarketplaces.length > 0 ? checkMarketplaces : undefined,
+        conditions
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to start check');
+      }
     } catch (error) {
       console.error('Error checking ASINs:', error);
       setIsAnimating(false);
@@ -161,131 +643,136 @@ export function Check() {
     }
   };
 
-  const processAsinsRealtime = async (asins: string[], originalOrder?: string[]) => {
-    console.log(`🚀 Processing ${asins.length} UNIQUE ASINs in batch mode (animated display)`);
+  const lookupIdentifiers = async (codes: ParsedIdentifier[]): Promise<IdentifierMatch[]> => {
+    const byType = new Map<IdentifierType, string[]>();
+    codes.forEach(({ code, type }) => {
+      byType.set(type, [...(byType.get(type) || []), code]);
+    });
 
-    // ✅ BATCH PROCESSING: Process 5 ASINs at once for better performance
-    const BATCH_SIZE = 5;
+    const found = new Map<string, IdentifierMatch>();
+    for (const [type, typeCodes] of byType) {
+      for (let i = 0; i < typeCodes.length; i += IDENTIFIER_LOOKUP_CHUNK) {
+        const chunk = typeCodes.slice(i, i + IDENTIFIER_LOOKUP_CHUNK);
+        const result = await apiClient.lookupIdentifiers(chunk, type);
+        if (!result.success) {
+          throw new Error(result.error || 'Identifier lookup failed');
+        }
+        (result.matches as IdentifierMatch[]).forEach(match => found.set(match.identifier, match));
+      }
+    }
 
-    // Initialize progress
-    setProgress({ processed: 0, total: asins.length, success: 0, warning: 0, error: 0 });
+    // Keep input order; codes the catalog doesn't know come back without candidates
+    return codes.map(({ code, type }) => found.get(code) || { identifier: code, identifierType: type, candidates: [] });
+  };
 
-    let processedCount = 0;
-    let successCount = 0;
-    let warningCount = 0;
-    let errorCount = 0;
+  const handleFindAsins = async () => {
+    if (!asinInput.trim()) {
+      showToast(t('enterAtLeastOneIdentifier'), 'error');
+      return;
+    }
 
-    // ✅ QUEUE SYSTEM: Store results in queue, display with constant interval
-    const resultQueue: CheckResult[] = [];
-    let fetchingComplete = false;
+    const { identifiers, rejected } = parsedIdentifiers;
+    setRejectedTokens(rejected);
 
-    // ✅ DISPLAY LOOP: Show results from queue with constant 600ms interval
-    const displayLoop = async () => {
-      while (!fetchingComplete || resultQueue.length > 0) {
-        if (resultQueue.length > 0) {
-          const asinResult = resultQueue.shift()!;
-          console.log(`✅ Displaying result for ${asinResult.asin}`);
-
-          // Add result to UI
-          setResults(prev => [asinResult, ...prev]);
-
-          // Auto scroll to top
-          setTimeout(() => {
-            const resultsContainer = document.getElementById('results');
-            if (resultsContainer) {
-              resultsContainer.scrollTop = 0;
-            }
-          }, 50);
-
-          processedCount++;
-
-          // Update counters
-          if (asinResult.detailedStatus === 'NOT_FOUND_IN_MARKETPLACE') {
-            // Don't count "not found" in statistics
-          } else if (asinResult.sellable) {
-            successCount++;
-          } else if (asinResult.detailedStatus?.includes('APPROVAL')) {
-            warningCount++;
-          } else {
-            errorCount++;
-          }
+    if (identifiers.length === 0) {
+      showToast(t('enterValidIdentifiers'), 'error');
+      return;
+    }
 
-          // Update progress
-          setProgress({
-            processed: processedCount,
-            total: asins.length,
-            success: successCount,
-            warning: warningCount,
-            error: errorCount
-          });
-
-          // ✅ CONSTANT INTERVAL: Always wait 600ms between cards
-          await new Promise(resolve => setTimeout(resolve, 600));
-        } else {
-          // Queue empty, wait a bit and check again
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+    if (rejected.length > 0) {
+      showToast(t('invalidIdentifiersRejected').replace('{count}', rejected.length.toString()), 'warning');
+    }
+
+    setIsResolving(true);
+    setIdentifierMatches(null);
+    try {
+      const matches = await lookupIdentifiers(identifiers);
+      if (!matches.some(match => match.candidates.length > 0)) {
+        showToast(t('noAsinsFoundForIdentifiers'), 'error');
       }
+      setIdentifierMatches(matches);
+    } catch (error) {
+      console.error('Error looking up identifiers:', error);
+      showToast(t('failedToLookupIdentifiers'), 'error');
+    } finally {
+      setIsResolving(false);
+    }
+  };
 
-      // All done
-      setIsAnimating(false);
-      setIsLoading(false);
-      showToast(
-        t('checkedAsinsSuccessfully')?.replace('{count}', processedCount.toString()) ||
-        `Successfully checked ${processedCount} ASIN(s)`,
-        'success'
-      );
+  const handleCheckMatchedAsins = async (identifiers: Record<string, string[]>) => {
+    const uniqueAsins = Object.keys(identifiers);
+    setIdentifierMatches(null);
+    await startCheck(uniqueAsins, uniqueAsins, identifiers);
+  };
 
-      // Update usage data
-      try {
-        await refreshData();
-      } catch (error) {
-        console.error('Error refreshing subscription data:', error);
-      }
-    };
+  const handleInputModeChange = (mode: InputMode) => {
+    setInputMode(mode);
+    setRejectedTokens([]);
+    setIdentifierMatches(null);
+  };
 
-    // Start display loop (non-blocking)
-    displayLoop();
+  const sendJobCommand = async (type: 'PAUSE_CHECK' | 'RESUME_CHECK' | 'CANCEL_CHECK') => {
+    try {
+      await sendToBackground({ type });
+    } catch (error) {
+      console.error(`Error sending ${type}:`, error);
+    }
+  };
 
-    // ✅ FETCH LOOP: Get results from backend and add to queue
-    for (let i = 0; i < asins.length; i += BATCH_SIZE) {
-      const batch = asins.slice(i, i + BATCH_SIZE);
-      console.log(`📦 Fetching batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(asins.length / BATCH_SIZE)}: ${batch.join(', ')}`);
-
-      try {
-        // Send BATCH to backend
-        const result = await apiClient.checkASINs(batch);
-
-        if (result.success && result.results && result.results.length > 0) {
-          // ✅ Add results to queue (display loop will show them)
-          resultQueue.push(...result.results);
-          console.log(`✅ Added ${result.results.length} results to queue (queue size: ${resultQueue.length})`);
-
-          // Update usage data if provided
-          if (result.usage) {
-            window.dispatchEvent(new CustomEvent('usageUpdated', {
-              detail: result.usage
-            }));
-          }
-        } else {
-          console.warn(`⚠️ No results received for batch:`, batch);
-          errorCount += batch.length;
-        }
+  const handlePauseCheck = () => sendJobCommand('PAUSE_CHECK');
 
-      } catch (error) {
-        console.error(`❌ Error processing batch:`, batch, error);
-        errorCount += batch.length;
-      }
+  const handleResumeCheck = () => sendJobCommand('RESUME_CHECK');
+
+  const handleCancelCheck = () => sendJobCommand('CANCEL_CHECK');
 
-      // Small delay between batch requests (rate limiting)
-      if (i + BATCH_SIZE < asins.length) {
-        await new Promise(resolve => setTimeout(resolve, 200));
+  const handleCheckUnsent = async () => {
+    if (unsentAsins.length === 0) {
+      return;
+    }
+
+    // Results of the cancelled run stay; remaining ASINs are appended
+    try {
+      const response = await sendToBackground({ type: 'CHECK_REMAINING' });
+      if (!response?.success || !response.job) {
+        throw new Error(response?.error || 'Failed to check remaining ASINs');
       }
+    } catch (error) {
+      console.error('Error checking remaining ASINs:', error);
+      showToast(t('failedToCheckAsins'), 'error');
+    }
+  };
+
+  const handleCopyAsins = async (asinList: string[]) => {
+    try {
+      await navigator.clipboard.writeText(asinList.join('\n'));
+      showToast(t('asinsCopied'), 'success');
+    } catch (error) {
+      console.error('Error copying ASINs:', error);
+      showToast(t('failedToCopy'), 'error');
     }
+  };
 
-    // Mark fetching as complete
-    fetchingComplete = true;
-    console.log('✅ All batches fetched, waiting for display loop to finish...');
+  const handleCopyResults = async (format: CopyFormat) => {
+    const text = buildClipboardText(format, {
+      results: visibleResults,
+      inputOrder: getExportOrder(),
+      language: currentLanguage,
+      identifiers: job?.identifiers,
+      conditions: job?.conditions,
+      marketplaces: job?.marketplaces
+    });
+    if (!text) {
+      showToast(t('nothingToCopy'), 'error');
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(text);
+      showToast(t('resultsCopied'), 'success');
+    } catch (error) {
+      console.error('Error copying results:', error);
+      showToast(t('failedToCopy'), 'error');
+    }
   };
 
   const handleClearResults = () => {
@@ -296,9 +783,15 @@ export function Check() {
         setResults([]);
         setAsinInput('');
         setInputAsinOrder([]);
+        setRejectedTokens([]);
+        setIdentifierMatches(null);
+        setResultFilters(DEFAULT_RESULT_FILTERS);
         setIsAnimating(false);
-        // Clear from storage as well
-        chrome.storage.local.remove(['check_results', 'check_input_order', 'check_input_text', 'check_timestamp']);
+        // Clear from storage as well (the background job drops its results)
+        chrome.storage.local.remove(CHECK_STORAGE_KEYS);
+        sendToBackground({ type: 'CLEAR_CHECK' }).catch(error => {
+          console.error('Error clearing check job:', error);
+        });
         showToast(t('resultsCleared'), 'success');
       },
       isDestructive: true,
@@ -307,197 +800,217 @@ export function Check() {
     });
   };
 
-  const getCSVStatus = (result: CheckResult): string => {
-    let status = '';
-
-    if (result.status === 'error') {
-      status = currentLanguage === 'tr' ? 'HATA' : 'ERROR';
-    } else if (result.detailedStatus) {
-      switch (result.detailedStatus) {
-        case 'Eligible':
-          status = currentLanguage === 'tr' ? 'SATILABILIR' : 'SELLABLE';
-          break;
-        case 'APPROVAL REQUIRED':
-          status = currentLanguage === 'tr' ? 'ONAY GEREKLI' : 'APPROVAL REQUIRED';
-          break;
-        case 'NOT_FOUND_IN_MARKETPLACE':
-          status = currentLanguage === 'tr' ? 'PAZARYERINDE BULUNAMADI' : 'NOT FOUND IN MARKETPLACE';
-          break;
-        case 'Restricted':
-          status = currentLanguage === 'tr' ? 'KISITLI' : 'RESTRICTED';
-          break;
-        case 'Ineligible':
-          status = currentLanguage === 'tr' ? 'UYGUN DEGIL' : 'NOT ELIGIBLE';
-          break;
-        default:
-          status = currentLanguage === 'tr' ? 'BILINMIYOR' : 'UNKNOWN';
-      }
-    } else if (result.sellable === true) {
-      status = currentLanguage === 'tr' ? 'SATILABILIR' : 'SELLABLE';
-    } else if (result.sellable === false) {
-      status = currentLanguage === 'tr' ? 'SATILAMAZ' : 'NOT SELLABLE';
-    } else {
-      status = currentLanguage === 'tr' ? 'BILINMIYOR' : 'UNKNOWN';
+  // Rows that match the current filters, in input order unless sorted by status or brand
+  const getExportOrder = () => {
+    const { sortField } = resultFilters;
+    if (sortField === 'status' || sortField === 'brand') {
+      return visibleResults.map(result => result.asin);
     }
+    if (!isFilterActive(resultFilters)) {
+      return inputAsinOrder;
+    }
+    const visibleAsins = new Set(visibleResults.map(result => result.asin));
+    return inputAsinOrder.filter(asin => visibleAsins.has(asin));
+  };
 
-    return status;
+  const handleMarketplacesChange = (value: string[]) => {
+    setCheckMarketplaces(value);
+    saveCheckMarketplaces(value);
   };
 
-  const handleExportCSV = () => {
-    if (results.length === 0) {
-      showToast(t('noResultsToExport'), 'error');
-      return;
-    }
+  const handleConditionsChange = (value: ItemCondition[]) => {
+    setConditions(value);
+    saveCheckConditions(value);
+  };
 
-    // CSV headers based on language (ASCII only for Turkish)
-    const headers = currentLanguage === 'tr'
-      ? ['ASIN', 'BASLIK', 'MARKA', 'DURUM', 'KONTROL TARIHI']
-      : ['ASIN', 'TITLE', 'BRAND', 'STATUS', 'CHECK DATE'];
-    const currentDate = new Date().toLocaleDateString(currentLanguage === 'tr' ? 'tr-TR' : 'en-US');
+  const handleResultViewChange = (view: ResultView) => {
+    setResultView(view);
+    setSelectedAsins(new Set());
+    saveResultView(view);
+  };
+
+  const handleRecheckSelected = async () => {
+    const asins = selectedResults.map(result => result.asin);
+    const identifiers = job?.identifiers;
+    const selectedIdentifiers = identifiers
+      ? Object.fromEntries(asins.filter(asin => identifiers[asin]).map(asin => [asin, identifiers[asin]]))
+      : undefined;
+    setSelectedAsins(new Set());
+    await startCheck(asins, asins, selectedIdentifiers && Object.keys(selectedIdentifiers).length > 0 ? selectedIdentifiers : undefined);
+  };
 
-    // Create a map of results by ASIN for quick lookup
-    const resultsMap = new Map<string, CheckResult>();
-    results.forEach(result => {
-      resultsMap.set(result.asin, result);
+  const handleExportSelected = async () => {
+    const selected = new Set(selectedResults.map(result => result.asin));
+    const csvContent = buildResultsCsv({
+      results: selectedResults,
+      inputOrder: getExportOrder().filter(asin => selected.has(asin)),
+      language: currentLanguage,
+      identifiers: job?.identifiers,
+      conditions: job?.conditions,
+      utf8Bom: await getCsvUtf8Bom()
     });
+    downloadFile(csvContent, getExportFileName('csv'), 'text/csv');
 
-    // Export in the order user inputted ASINs
-    const csvContent = [
-      headers.join(','),
-      ...inputAsinOrder.map(asin => {
-        const result = resultsMap.get(asin);
-        if (!result) {
-          // If result not found, create a placeholder row
-          return [
-            asin,
-            '"N/A"',
-            '"N/A"',
-            '"No Result"',
-            currentDate
-          ].join(',');
-        }
+    showToast(t('csvExportedSuccessfully'), 'success');
+  };
 
-        const productTitle = result.details?.title || result.details?.itemName || result.title || 'N/A';
-        const productBrand = result.details?.brand || result.details?.brandName || result.brand || 'N/A';
-        return [
-          result.asin,
-          `"${productTitle.replace(/"/g, '""')}"`,
-          `"${productBrand.replace(/"/g, '""')}"`,
-          `"${getCSVStatus(result)}"`,
-          currentDate
-        ].join(',');
-      })
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `fastchecker-results-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleExportCSV = async () => {
+    if (visibleResults.length === 0) {
+      showToast(t('noResultsToExport'), 'error');
+      return;
+    }
+
+    const utf8Bom = await getCsvUtf8Bom();
+    // Multi-marketplace runs export the ASIN x marketplace matrix, one row per ASIN
+    const csvContent = isMultiMarketplace && job?.marketplaces
+      ? buildMatrixCsv(visibleResults, [...new Set(getExportOrder())], job.marketplaces, currentLanguage, utf8Bom)
+      : buildResultsCsv({
+        results: visibleResults,
+        inputOrder: getExportOrder(),
+        language: currentLanguage,
+        identifiers: job?.identifiers,
+        conditions: job?.conditions,
+        utf8Bom
+      });
+    downloadFile(csvContent, getExportFileName('csv'), 'text/csv');
 
     showToast(t('csvExportedSuccessfully'), 'success');
   };
 
-  const getStatusClass = (result: CheckResult) => {
-    // Backend'den gelen result objesini kontrol et
-    if (result.status === 'error') {
-      return 'error';
-    }
-    
-    // Use detailedStatus if available, otherwise fallback to sellable
-    if (result.detailedStatus) {
-      switch (result.detailedStatus) {
-        case 'Eligible':
-          return 'success';
-        case 'APPROVAL REQUIRED':
-          return 'warning';
-        case 'NOT_FOUND_IN_MARKETPLACE':
-          return 'not-found'; // Gri
-        case 'Restricted':
-        case 'Ineligible':
-          return 'error'; // Kırmızı
-        default:
-          return 'warning';
-      }
-    }
-    
-    // Fallback to old logic
-    if (result.sellable === true) {
-      return 'success';
-    } else if (result.sellable === false) {
-      return 'error';
+  const handleExportTemplate = async (template: ExportTemplate) => {
+    if (visibleResults.length === 0) {
+      showToast(t('noResultsToExport'), 'error');
+      return;
     }
-    
-    // Final fallback
-    return 'warning';
+
+    const csvContent = buildTemplateCsv(template, {
+      results: visibleResults,
+      inputOrder: getExportOrder(),
+      language: currentLanguage,
+      identifiers: job?.identifiers,
+      conditions: job?.conditions,
+      marketplace: job?.marketplace || marketplace,
+      marketplaces: job?.marketplaces,
+      utf8Bom: await getCsvUtf8Bom()
+    });
+    downloadFile(csvContent, getExportFileName(template.delimiter === '\t' ? 'tsv' : 'csv'), 'text/csv');
+
+    showToast(t('csvExportedSuccessfully'), 'success');
   };
 
-  const getStatusText = (result: CheckResult) => {
-    // Backend'den gelen result objesini kontrol et
-    if (result.status === 'error') {
-      return t('checkError');
-    }
-    
-    // Use detailedStatus if available, otherwise fallback to sellable
-    if (result.detailedStatus) {
-      switch (result.detailedStatus) {
-        case 'Eligible':
-          return 'SELLABLE';
-        case 'APPROVAL REQUIRED':
-          return 'APPROVAL\nREQUIRED';
-        case 'NOT_FOUND_IN_MARKETPLACE':
-          return t('notFoundInMarketplace').toUpperCase();
-        case 'Restricted':
-          return 'RESTRICTED';
-        case 'Ineligible':
-          return 'NOT ELIGIBLE';
-        default:
-          return 'UNKNOWN';
-      }
+  const handleExportXLSX = async () => {
+    if (visibleResults.length === 0) {
+      showToast(t('noResultsToExport'), 'error');
+      return;
     }
-    
-    // Fallback to old logic
-    if (result.sellable === true) {
-      return 'SELLABLE';
-    } else if (result.sellable === false) {
-      return 'NOT ELIGIBLE';
+
+    try {
+      const includeImages = await getXlsxIncludeImages();
+      const buffer = isMultiMarketplace && job?.marketplaces
+        ? await buildMatrixXlsx(visibleResults, [...new Set(getExportOrder())], job.marketplaces, currentLanguage, includeImages)
+        : await buildResultsXlsx({
+          results: visibleResults,
+          inputOrder: getExportOrder(),
+          language: currentLanguage,
+          identifiers: job?.identifiers,
+          conditions: job?.conditions,
+          includeImages
+        });
+      downloadFile(buffer, getExportFileName('xlsx'), XLSX_MIME_TYPE);
+
+      showToast(t('xlsxExportedSuccessfully'), 'success');
+    } catch (error) {
+      console.error('Error exporting XLSX:', error);
+      showToast(t('failedToExportXlsx'), 'error');
     }
-    
-    // Final fallback
-    return 'UNKNOWN';
   };
 
-  // No sorting - display results in the order they come from backend
-
   return (
     <div className="check-container">
+      {/* Input Mode Toggle */}
+      <div className="input-mode-toggle">
+        <button
+          className={`input-mode-btn ${!isIdentifierMode ? 'active' : ''}`}
+          onClick={() => handleInputModeChange('asin')}
+          disabled={isLoading || isResolving}
+        >
+          ASIN
+        </button>
+        <button
+          className={`input-mode-btn ${isIdentifierMode ? 'active' : ''}`}
+          onClick={() => handleInputModeChange('identifier')}
+          disabled={isLoading || isResolving}
+        >
+          UPC / EAN / ISBN
+        </button>
+      </div>
+
       {/* Input Section */}
       <div className="input-section">
-        <textarea
-          id="asinInput"
-          className="asin-textarea"
-          placeholder={hasValidSettings ? "B0C31QBVQ1, B0DRW7WRX3..." : "Please configure SP-API settings first"}
+        <AsinInput
           value={asinInput}
+          tokens={isIdentifierMode ? parsedIdentifiers.tokens : parsedInput.tokens}
+          marketplace={marketplace}
+          placeholder={hasValidSettings
+            ? (isIdentifierMode ? "012345678905, 4006381333931..." : "B0C31QBVQ1, B0DRW7WRX3...")
+            : "Please configure SP-API settings first"}
           onChange={handleInputChange}
-          disabled={isLoading || !hasValidSettings}
+          disabled={isLoading || isResolving || !hasValidSettings}
         />
       </div>
+
+      {/* Marketplace mismatch warning for pasted links */}
+      {mismatchedLinks.length > 0 && (
+        <div className="marketplace-warning">
+          ⚠️ {t('marketplaceMismatch')
+            .replace('{count}', mismatchedLinks.length.toString())
+            .replace('{domains}', [...new Set(mismatchedLinks.map(token => getMarketplaceDomain(token.marketplace!)))].join(', '))
+            .replace('{marketplace}', runMarketplaces.map(getMarketplaceDomain).join(', '))}
+        </div>
+      )}
+
+      {/* File Import */}
+      {!isIdentifierMode && (
+        <FileImport
+          disabled={isLoading || !hasValidSettings}
+          onImport={handleImportAsins}
+        />
+      )}
+
+      {/* ASINs and Amazon links on the page in the active tab */}
+      {!isIdentifierMode && (
+        <PageScan
+          disabled={isLoading || !hasValidSettings}
+          onImport={handleImportAsins}
+        />
+      )}
       
+      {/* Item conditions to check eligibility for */}
+      <ConditionPicker
+        value={conditions}
+        disabled={isLoading || isResolving || !hasValidSettings}
+        onChange={handleConditionsChange}
+      />
+
+      {/* Marketplaces to check the list in (several make a matrix) */}
+      <MarketplacePicker
+        value={checkMarketplaces}
+        defaultMarketplace={marketplace}
+        disabled={isLoading || isResolving || !hasValidSettings}
+        onChange={handleMarketplacesChange}
+      />
+
       {/* Action Buttons */}
       <div className="action-buttons">
         <button 
           id="checkAsins"
           className="action-btn primary"
-          onClick={handleCheckAsins}
-          disabled={isLoading || !asinInput.trim() || !hasValidSettings}
+          onClick={isIdentifierMode ? handleFindAsins : handleCheckAsins}
+          disabled={isLoading || isResolving || !asinInput.trim() || !hasValidSettings}
         >
           <span className="btn-icon">🔍</span>
-          <span className="btn-text">{t('checkAsins')}</span>
-          <span className="btn-loader" style={{ display: isLoading ? 'inline' : 'none' }}>⏳</span>
+          <span className="btn-text">{isIdentifierMode ? t('findAsins') : t('checkAsins')}</span>
+          <span className="btn-loader" style={{ display: isLoading || isResolving ? 'inline' : 'none' }}>⏳</span>
         </button>
         <button 
           id="clearAsins"
@@ -509,17 +1022,91 @@ export function Check() {
         </button>
       </div>
 
+      {/* ASIN candidates for the looked-up identifiers */}
+      {identifierMatches && (
+        <IdentifierMatches
+          matches={identifierMatches}
+          disabled={isLoading}
+          onConfirm={handleCheckMatchedAsins}
+          onClose={() => setIdentifierMatches(null)}
+        />
+      )}
+
       {/* Progress Indicator */}
       {isAnimating && (
         <div className="progress-indicator">
           <div className="progress-text">
-            Processing {progress.processed} / {progress.total} ASINs...
+            {isPaused ? `${t('checkPaused')} ` : 'Processing '}
+            {progress.processed} / {progress.total} ASINs{isPaused ? '' : '...'}
           </div>
           <div className="progress-stats">
             <span className="stat-success">✅ {progress.success}</span>
             <span className="stat-warning">⚠️ {progress.warning}</span>
             <span className="stat-error">❌ {progress.error}</span>
           </div>
+          <div className="progress-controls">
+            {isPaused ? (
+              <button className="progress-control-btn" onClick={handleResumeCheck}>
+                ▶️ {t('resumeCheck')}
+              </button>
+            ) : (
+              <button className="progress-control-btn" onClick={handlePauseCheck}>
+                ⏸️ {t('pauseCheck')}
+              </button>
+            )}
+            <button className="progress-control-btn destructive" onClick={handleCancelCheck}>
+              ⏹️ {t('cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Unsent ASINs (left over from a cancelled run) */}
+      {unsentAsins.length > 0 && !isLoading && (
+        <div className="asin-list-section">
+          <div className="asin-list-header">
+            <span className="asin-list-title">
+              {t(job?.quotaExceeded ? 'unsentAsinsQuota' : 'unsentAsins').replace('{count}', unsentAsins.length.toString())}
+            </span>
+            <div className="results-actions">
+              {job?.quotaExceeded && (
+                <button className="results-action-btn" onClick={handleUpgrade}>
+                  ⭐ {t('upgrade')}
+                </button>
+              )}
+              <button className="results-action-btn" onClick={() => handleCopyAsins(unsentAsins)}>
+                📋 {t('copy')}
+              </button>
+              <button
+                className="results-action-btn"
+                onClick={handleCheckUnsent}
+                disabled={!hasValidSettings}
+              >
+                ▶️ {t('checkRemaining')}
+              </button>
+            </div>
+          </div>
+          <div className="asin-list">{unsentAsins.join(', ')}</div>
+        </div>
+      )}
+
+      {/* Rejected tokens (failed ASIN validation, never sent) */}
+      {rejectedTokens.length > 0 && (
+        <div className="asin-list-section rejected">
+          <div className="asin-list-header">
+            <span className="asin-list-title">
+              {t(isIdentifierMode ? 'rejectedIdentifiers' : 'rejectedAsins').replace('{count}', rejectedTokens.length.toString())}
+            </span>
+            <div className="results-actions">
+              <button className="results-action-btn" onClick={() => handleCopyAsins(rejectedTokens)}>
+                📋 {t('copy')}
+              </button>
+              <button className="results-action-btn" onClick={() => setRejectedTokens([])}>
+                ✕
+              </button>
+            </div>
+          </div>
+          <div className="asin-list">{rejectedTokens.join(', ')}</div>
         </div>
       )}
       
@@ -528,51 +1115,122 @@ export function Check() {
         <div id="resultsSection" className="results-section">
           <div className="results-header">
             <h3 className="results-title">
-              {t('results')} ({results.length})
+              {t('results')} ({visibleResults.length === results.length
+                ? results.length
+                : `${visibleResults.length}/${results.length}`})
             </h3>
             <div className="results-actions">
-              <button 
+              {!isMultiMarketplace && (
+                <button
+                  className="results-action-btn"
+                  onClick={() => handleResultViewChange(resultView === 'cards' ? 'table' : 'cards')}
+                  title={t(resultView === 'cards' ? 'showTableView' : 'showCardView')}
+                >
+                  {resultView === 'cards' ? '☰' : '▦'}
+                </button>
+              )}
+              <CopyMenu disabled={visibleResults.length === 0} onCopy={handleCopyResults} />
+              <ExportMenu
+                disabled={visibleResults.length === 0}
+                onExportDefault={handleExportCSV}
+                onExportTemplate={handleExportTemplate}
+                onManageTemplates={() => setShowExportTemplates(true)}
+              />
+              <button
                 className="results-action-btn"
-                onClick={handleExportCSV}
+                onClick={handleExportXLSX}
+                disabled={visibleResults.length === 0}
+                title={t('exportXlsx')}
               >
-                📥 {t('export')}
+                📊 XLSX
               </button>
             </div>
           </div>
-          <div id="results" className="results-container">
-            {results.map((result, index) => {
-              const productTitle = result.details?.title || result.details?.itemName || result.title || 'N/A';
-              const productBrand = result.details?.brand || result.details?.brandName || result.brand || 'N/A';
-              const productImage = result.imageUrl || 
-                                 result.details?.imageUrl || 
-                                 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNDgiIGhlaWdodD0iNDgiIHZpZXdCb3g9IjAgMCA0OCA0OCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3Qgd2lkdGg9IjQ4IiBoZWlnaHQ9IjQ4IiBmaWxsPSIjRjNGNEY2Ii8+CjxwYXRoIGQ9Ik0yNCAzNkMzMC42MjcgMzYgMzYgMzAuNjI3IDM2IDI0QzM2IDE3LjM3MyAzMC42MjcgMTIgMjQgMTJDMTcuMzczIDEyIDEyIDE3LjM3MyAxMiAyNEMxMiAzMC42MjcgMTcuMzczIDM2IDI0IDM2WiIgZmlsbD0iIzlDQTNBRiIvPgo8L3N2Zz4K';
-              
-              return (
-                <div 
-                  key={`${result.asin}-${index}`} 
-                  className={`result-card ${getStatusClass(result)}`}
-                  style={{ animationDelay: `${index * 100}ms` }}
-                >
-                  <img src={productImage} alt={productTitle} className="result-image" />
-                  <div className="result-info">
-                    <div className="result-details">
-                      <div className="result-asin">{result.asin}</div>
-                      <div className="result-title">{productTitle}</div>
-                      <div className="result-brand">{productBrand}</div>
-                    </div>
-                    <div className="result-status">
-                      <div className={`status-badge ${getStatusClass(result)}`}>
-                        {getStatusText(result)}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+          <ResultsToolbar filters={resultFilters} counts={statusCounts} onChange={setResultFilters} />
+          {!isMultiMarketplace && resultView === 'table' && selectedResults.length > 0 && (
+            <ResultsBulkBar
+              selectedAsins={selectedResults.map(result => result.asin)}
+              disabled={isLoading || !hasValidSettings}
+              onCopy={() => handleCopyAsins(selectedResults.map(result => result.asin))}
+              onRecheck={handleRecheckSelected}
+              onExport={handleExportSelected}
+              onClearSelection={() => setSelectedAsins(new Set())}
+            />
+          )}
+          {isMultiMarketplace && job?.marketplaces ? (
+            <MarketplaceMatrix
+              id="results"
+              results={visibleResults}
+              marketplaces={job.marketplaces}
+              onOpenDetails={setDetailResult}
+            >
+              {visibleResults.length === 0 && (
+                <p className="empty-subtext">{t('noResultsMatchFilters')}</p>
+              )}
+            </MarketplaceMatrix>
+          ) : resultView === 'table' ? (
+            <ResultsTable
+              id="results"
+              results={visibleResults}
+              selectedAsins={selectedAsins}
+              onSelectionChange={setSelectedAsins}
+              marketplace={job?.marketplace}
+              conditions={job?.conditions}
+              onOpenDetails={setDetailResult}
+            >
+              {visibleResults.length === 0 && (
+                <p className="empty-subtext">{t('noResultsMatchFilters')}</p>
+              )}
+            </ResultsTable>
+          ) : (
+            <VirtualList
+              id="results"
+              className="results-container"
+              items={visibleResults}
+              itemHeight={RESULT_ROW_HEIGHT}
+              getKey={(result) => result.asin}
+              renderItem={(result, index) => (
+                <ResultCard
+                  result={result}
+                  animate={isAnimating && index === 0}
+                  conditions={job?.conditions}
+                  onClick={() => setDetailResult(result)}
+                />
+              )}
+            >
+              {visibleResults.length === 0 && (
+                <p className="empty-subtext">{t('noResultsMatchFilters')}</p>
+              )}
+            </VirtualList>
+          )}
         </div>
       )}
 
+      {detailResult && (
+        <ResultDetailDrawer
+          result={detailResult}
+          marketplace={job?.marketplace || marketplace}
+          conditions={job?.conditions}
+          onClose={() => setDetailResult(null)}
+        />
+      )}
+
+      {quotaGuardRun && (
+        <QuotaGuardDialog
+          asins={quotaGuardRun.uniqueAsins}
+          checksPerAsin={Math.max(1, checkMarketplaces.length)}
+          remaining={quotaGuardRun.remaining}
+          marketplace={checkMarketplaces.length > 1 ? undefined : checkMarketplaces[0] || marketplace}
+          onConfirm={handleQuotaGuardConfirm}
+          onUpgrade={handleUpgrade}
+          onClose={() => setQuotaGuardRun(null)}
+        />
+      )}
+
+      {showExportTemplates && (
+        <ExportTemplatesDialog onClose={() => setShowExportTemplates(false)} />
+      )}
+
       {/* Empty State */}
       {results.length === 0 && !isLoading && (
         <div id="emptyState" className="empty-state">
@@ -0,0 +1,427 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useModal } from '../../contexts/ModalContext';
+import { useAppContext } from '../../contexts/AppContext';
+import { CheckHistoryEntry, CheckHistorySummary, CheckResult, RunDiff } from '../../types/check';
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  getHistoryEntry,
+  getHistorySummaries,
+  pruneHistory
+} from '../../utils/checkHistory';
+import { getCsvUtf8Bom, getXlsxIncludeImages } from '../../utils/checkPreferences';
+import { formatSourceCodes } from '../../utils/identifier';
+import { getMarketplaceDomain } from '../../utils/marketplaces';
+import { buildMatrixCsv, isMultiMarketplaceRun } from '../../utils/marketplaceMatrix';
+import { buildResultsCsv, downloadFile, getExportFileName } from '../../utils/resultExport';
+import { XLSX_MIME_TYPE, buildMatrixXlsx, buildResultsXlsx } from '../../utils/xlsxExport';
+import { diffRuns } from '../../utils/runDiff';
+import { RESULT_ROW_HEIGHT, ResultCard } from '../../components/check/ResultCard';
+import { VirtualList } from '../../components/common/VirtualList';
+import { ResultDetailDrawer } from '../../components/check/ResultDetailDrawer';
+import { MarketplaceMatrix } from '../../components/check/MarketplaceMatrix';
+import { RunComparison } from '../../components/history/RunComparison';
+import { Watchlists } from '../../components/history/Watchlists';
+// Result card and results section styles are shared with the Check page
+import './Check.css';
+import './History.css';
+
+export function History() {
+  const { t, currentLanguage } = useLanguage();
+  const { showToast } = useToast();
+  const { showModal } = useModal();
+  const { switchTab } = useAppContext();
+
+  const [runs, setRuns] = useState<CheckHistorySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [openRun, setOpenRun] = useState<CheckHistoryEntry | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<RunDiff | null>(null);
+  const [view, setView] = useState<'runs' | 'watchlists'>('runs');
+  const [detailResult, setDetailResult] = useState<CheckResult | null>(null);
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  const loadRuns = async () => {
+    try {
+      setIsLoading(true);
+      await pruneHistory();
+      setRuns(await getHistorySummaries());
+    } catch (error) {
+      console.error('Error loading check history:', error);
+      showToast(t('failedToLoadHistory'), 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Matches ASINs, source UPC/EAN codes and the marketplace of a run
+  const filteredRuns = useMemo(() => {
+    const query = searchQuery.trim().toUpperCase();
+    if (!query) return runs;
+    return runs.filter(run => {
+      return run.inputOrder.some(asin => asin.includes(query)) ||
+        Object.keys(run.identifiers || {}).some(asin => formatSourceCodes(run.identifiers, asin).includes(query)) ||
+        [run.marketplace, ...(run.marketplaces || [])].some(code => (code || '').includes(query));
+    });
+  }, [runs, searchQuery]);
+
+  // Results of the open run in the order the ASINs were entered
+  const openRunResults = useMemo(() => {
+    if (!openRun) return [];
+    const resultsMap = new Map<string, CheckResult>();
+    openRun.results.forEach(result => resultsMap.set(result.asin, result));
+    return [...new Set(openRun.inputOrder)]
+      .map(asin => resultsMap.get(asin))
+      .filter((result): result is CheckResult => !!result);
+  }, [openRun]);
+
+  // Results of a multi-marketplace run, grouped by ASIN in input order
+  const openRunMatrixResults = useMemo(() => {
+    if (!openRun) return [];
+    const positions = new Map<string, number>();
+    openRun.inputOrder.forEach((asin, index) => {
+      if (!positions.has(asin)) positions.set(asin, index);
+    });
+    const position = (asin: string) => positions.get(asin) ?? Number.MAX_SAFE_INTEGER;
+    return [...openRun.results].sort((a, b) => position(a.asin) - position(b.asin));
+  }, [openRun]);
+
+  const getMarketplaceLabel = (run: Pick<CheckHistorySummary, 'marketplace' | 'marketplaces'>) => {
+    return isMultiMarketplaceRun(run) && run.marketplaces
+      ? run.marketplaces.join(' · ')
+      : getMarketplaceDomain(run.marketplace!);
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(currentLanguage === 'tr' ? 'tr-TR' : 'en-US');
+  };
+
+  const handleOpenRun = async (id: string) => {
+    try {
+      const entry = await getHistoryEntry(id);
+      if (!entry) {
+        showToast(t('historyRunNotFound'), 'error');
+        loadRuns();
+        return;
+      }
+      setOpenRun(entry);
+    } catch (error) {
+      console.error('Error opening history run:', error);
+      showToast(t('failedToLoadHistory'), 'error');
+    }
+  };
+
+  // Keeps at most two runs selected; picking a third drops the oldest pick
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(selectedId => selectedId !== id);
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const handleCompareRuns = async () => {
+    if (compareIds.length !== 2) return;
+    try {
+      const [first, second] = await Promise.all(compareIds.map(getHistoryEntry));
+      if (!first || !second) {
+        showToast(t('historyRunNotFound'), 'error');
+        loadRuns();
+        return;
+      }
+      setComparison(diffRuns(first, second));
+    } catch (error) {
+      console.error('Error comparing history runs:', error);
+      showToast(t('failedToLoadHistory'), 'error');
+    }
+  };
+
+  const handleExportRun = async (entry: CheckHistoryEntry) => {
+    const utf8Bom = await getCsvUtf8Bom();
+    const csvContent = isMultiMarketplaceRun(entry) && entry.marketplaces
+      ? buildMatrixCsv(entry.results, [...new Set(entry.inputOrder)], entry.marketplaces, currentLanguage, utf8Bom)
+      : buildResultsCsv({
+        results: entry.results,
+        inputOrder: entry.inputOrder,
+        language: currentLanguage,
+        identifiers: entry.identifiers,
+        conditions: entry.conditions,
+        utf8Bom
+      });
+    downloadFile(csvContent, getExportFileName('csv', new Date(entry.createdAt)), 'text/csv');
+    showToast(t('csvExportedSuccessfully'), 'success');
+  };
+
+  const handleExportRunXlsx = async (entry: CheckHistoryEntry) => {
+    try {
+      const includeImages = await getXlsxIncludeImages();
+      const buffer = isMultiMarketplaceRun(entry) && entry.marketplaces
+        ? await buildMatrixXlsx(entry.results, [...new Set(entry.inputOrder)], entry.marketplaces, currentLanguage, includeImages)
+        : await buildResultsXlsx({
+          results: entry.results,
+          inputOrder: entry.inputOrder,
+          language: currentLanguage,
+          identifiers: entry.identifiers,
+          conditions: entry.conditions,
+          includeImages
+        });
+      downloadFile(buffer, getExportFileName('xlsx', new Date(entry.createdAt)), XLSX_MIME_TYPE);
+      showToast(t('xlsxExportedSuccessfully'), 'success');
+    } catch (error) {
+      console.error('Error exporting history run as XLSX:', error);
+      showToast(t('failedToExportXlsx'), 'error');
+    }
+  };
+
+  // The Check page picks the saved input up when it mounts
+  const handleLoadIntoCheck = async (entry: CheckHistoryEntry) => {
+    await chrome.storage.local.set({
+      'check_input_text': entry.inputOrder.join('\n'),
+      'check_timestamp': Date.now()
+    });
+    switchTab('check');
+  };
+
+  const handleDeleteRun = (id: string) => {
+    showModal({
+      title: t('deleteHistoryRun'),
+      message: t('areYouSureDeleteHistoryRun'),
+      onConfirm: async () => {
+        try {
+          await deleteHistoryEntry(id);
+          setRuns(prev => prev.filter(run => run.id !== id));
+          setCompareIds(prev => prev.filter(selectedId => selectedId !== id));
+          if (openRun?.id === id) {
+            setOpenRun(null);
+          }
+        } catch (error) {
+          console.error('Error deleting history run:', error);
+          showToast(t('failedToDeleteHistory'), 'error');
+        }
+      },
+      isDestructive: true,
+      confirmText: t('delete'),
+      cancelText: t('cancel')
+    });
+  };
+
+  const handleClearHistory = () => {
+    showModal({
+      title: t('clearHistory'),
+      message: t('areYouSureClearHistory'),
+      onConfirm: async () => {
+        try {
+          await clearHistory();
+          setRuns([]);
+          setOpenRun(null);
+          setCompareIds([]);
+          showToast(t('historyCleared'), 'success');
+        } catch (error) {
+          console.error('Error clearing history:', error);
+          showToast(t('failedToDeleteHistory'), 'error');
+        }
+      },
+      isDestructive: true,
+      confirmText: t('clear'),
+      cancelText: t('cancel')
+    });
+  };
+
+  if (comparison) {
+    return (
+      <div className="history-container">
+        <RunComparison diff={comparison} onClose={() => setComparison(null)} />
+      </div>
+    );
+  }
+
+  if (openRun) {
+    return (
+      <div className="history-container">
+        <div className="history-run-header">
+          <button className="results-action-btn" onClick={() => setOpenRun(null)}>
+            ← {t('back')}
+          </button>
+          <div className="history-run-meta">
+            <span className="history-run-date">{formatDate(openRun.createdAt)}</span>
+            {openRun.marketplace && (
+              <span className="history-run-marketplace">{getMarketplaceLabel(openRun)}</span>
+            )}
+          </div>
+        </div>
+
+        <div className="results-section">
+          <div className="results-header">
+            <h3 className="results-title">
+              {t('results')} ({openRunResults.length})
+            </h3>
+            <div className="results-actions">
+              <button className="results-action-btn" onClick={() => handleLoadIntoCheck(openRun)}>
+                ↩️ {t('loadIntoCheck')}
+              </button>
+              <button className="results-action-btn" onClick={() => handleExportRun(openRun)}>
+                📥 {t('export')}
+              </button>
+              <button className="results-action-btn" onClick={() => handleExportRunXlsx(openRun)} title={t('exportXlsx')}>
+                📊 XLSX
+              </button>
+              <button className="results-action-btn" onClick={() => handleDeleteRun(openRun.id)}>
+                🗑️
+              </button>
+            </div>
+          </div>
+          {isMultiMarketplaceRun(openRun) && openRun.marketplaces ? (
+            <MarketplaceMatrix
+              results={openRunMatrixResults}
+              marketplaces={openRun.marketplaces}
+              onOpenDetails={setDetailResult}
+            />
+          ) : (
+            <VirtualList
+              className="results-container history-results"
+              items={openRunResults}
+              itemHeight={RESULT_ROW_HEIGHT}
+              getKey={(result) => result.asin}
+              renderItem={(result) => (
+                <ResultCard
+                  result={result}
+                  animate={false}
+                  conditions={openRun.conditions}
+                  onClick={() => setDetailResult(result)}
+                />
+              )}
+            />
+          )}
+        </div>
+        {detailResult && (
+          <ResultDetailDrawer
+            result={detailResult}
+            marketplace={openRun.marketplace}
+            conditions={openRun.conditions}
+            onClose={() => setDetailResult(null)}
+          />
+        )}
+      </div>
+    );
+  }
+
+  const viewToggle = (
+    <div className="input-mode-toggle">
+      <button
+        className={`input-mode-btn ${view === 'runs' ? 'active' : ''}`}
+        onClick={() => setView('runs')}
+      >
+        {t('historyRuns')}
+      </button>
+      <button
+        className={`input-mode-btn ${view === 'watchlists' ? 'active' : ''}`}
+        onClick={() => setView('watchlists')}
+      >
+        {t('watchlists')}
+      </button>
+    </div>
+  );
+
+  if (view === 'watchlists') {
+    return (
+      <div className="history-container">
+        {viewToggle}
+        <Watchlists />
+      </div>
+    );
+  }
+
+  return (
+    <div className="history-container">
+      {viewToggle}
+      <div className="history-toolbar">
+        <input
+          type="text"
+          className="history-search"
+          placeholder={t('searchHistory')}
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+        />
+        {runs.length > 1 && (
+          <button
+            className="results-action-btn"
+            onClick={handleCompareRuns}
+            disabled={compareIds.length !== 2}
+            title={t('compareRunsHint')}
+          >
+            🔀 {t('compareRuns')} ({compareIds.length}/2)
+          </button>
+        )}
+        {runs.length > 0 && (
+          <button className="results-action-btn" onClick={handleClearHistory}>
+            🗑️ {t('clearHistory')}
+          </button>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="loading-state">
+          <div className="loading-spinner"></div>
+          <p className="loading-text">{t('loading')}</p>
+        </div>
+      )}
+
+      {!isLoading && filteredRuns.length === 0 && (
+        <div className="empty-state">
+          <p className="empty-text">{runs.length === 0 ? t('historyEmpty') : t('historyNoMatches')}</p>
+          {runs.length === 0 && <p className="empty-subtext">{t('historyEmptySubtext')}</p>}
+        </div>
+      )}
+
+      <div className="history-list">
+        {!isLoading && filteredRuns.map(run => (
+          <div
+            key={run.id}
+            className={`history-run ${compareIds.includes(run.id) ? 'selected' : ''}`}
+            onClick={() => handleOpenRun(run.id)}
+          >
+            <input
+              type="checkbox"
+              className="history-run-compare"
+              checked={compareIds.includes(run.id)}
+              onClick={(e) => e.stopPropagation()}
+              onChange={() => toggleCompare(run.id)}
+              title={t('compareRunsHint')}
+            />
+            <div className="history-run-info">
+              <div className="history-run-meta">
+                <span className="history-run-date">{formatDate(run.createdAt)}</span>
+                {run.marketplace && (
+                  <span className="history-run-marketplace">{getMarketplaceLabel(run)}</span>
+                )}
+                {run.status === 'cancelled' && (
+                  <span className="history-run-cancelled">{t('historyRunCancelled')}</span>
+                )}
+              </div>
+              <div className="history-run-stats">
+                {t('historyRunStats')
+                  .replace('{results}', run.resultCount.toString())
+                  .replace('{total}', new Set(run.inputOrder).size.toString())
+                  .replace('{sellable}', run.sellableCount.toString())}
+              </div>
+            </div>
+            <button
+              className="history-run-delete"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDeleteRun(run.id);
+              }}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,43 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useAppContext } from '../../contexts/AppContext';
+import { PENDING_ASIN_DETAILS_KEY, PENDING_PANEL_COMMAND_KEY } from '../../types/messages';
 import { Check } from './Check';
+import { History } from './History';
 import { Settings } from './Settings';
 import { Account } from './Account';
 import { Subscription } from './Subscription';
 
 export function MainApp() {
-  const { activeTab } = useAppContext();
+  const { activeTab, switchTab } = useAppContext();
+
+  // Details asked for from an Amazon page badge, and keyboard shortcut
+  // actions, are handled on the Check tab
+  useEffect(() => {
+    const showCheckTab = async () => {
+      const data = await chrome.storage.local.get([PENDING_ASIN_DETAILS_KEY, PENDING_PANEL_COMMAND_KEY]);
+      if (data[PENDING_ASIN_DETAILS_KEY] || data[PENDING_PANEL_COMMAND_KEY]) {
+        switchTab('check');
+      }
+    };
+
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName !== 'local') return;
+      if (changes[PENDING_ASIN_DETAILS_KEY]?.newValue || changes[PENDING_PANEL_COMMAND_KEY]?.newValue) {
+        switchTab('check');
+      }
+    };
+
+    showCheckTab();
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, []);
 
   const renderActiveTab = () => {
     switch (activeTab) {
       case 'check':
         return <Check />;
+      case 'history':
+        return <History />;
       case 'settings':
         return <Settings />;
       case 'account':
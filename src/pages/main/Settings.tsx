@@ -3,6 +3,26 @@ import { useLanguage } from '../../contexts/LanguageContext';
 import { useToast } from '../../contexts/ToastContext';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAppContext } from '../../contexts/AppContext';
+import { MARKETPLACES } from '../../utils/marketplaces';
+import {
+  DEFAULT_BULK_CHECK_THRESHOLD,
+  DEFAULT_HISTORY_RETENTION_DAYS,
+  HISTORY_RETENTION_OPTIONS,
+  getBulkCheckThreshold,
+  getCsvUtf8Bom,
+  getHistoryRetentionDays,
+  getPageBadgesEnabled,
+  getQuotaPreview,
+  getResultDisplayThrottle,
+  getXlsxIncludeImages,
+  saveBulkCheckThreshold,
+  saveCsvUtf8Bom,
+  saveHistoryRetentionDays,
+  savePageBadgesEnabled,
+  saveQuotaPreview,
+  saveResultDisplayThrottle,
+  saveXlsxIncludeImages
+} from '../../utils/checkPreferences';
 import './Settings.css';
 
 // Import apiClient
@@ -58,6 +78,13 @@ export function Settings() {
     sellerId: '',
     marketplace: 'US'
   });
+  const [bulkCheckThreshold, setBulkCheckThreshold] = useState(DEFAULT_BULK_CHECK_THRESHOLD);
+  const [historyRetentionDays, setHistoryRetentionDays] = useState(DEFAULT_HISTORY_RETENTION_DAYS);
+  const [resultDisplayThrottle, setResultDisplayThrottle] = useState(true);
+  const [quotaPreview, setQuotaPreview] = useState(true);
+  const [csvUtf8Bom, setCsvUtf8Bom] = useState(false);
+  const [xlsxIncludeImages, setXlsxIncludeImages] = useState(false);
+  const [pageBadges, setPageBadges] = useState(true);
   const [showPasswords, setShowPasswords] = useState({
     refreshToken: false,
     clientId: false,
@@ -71,6 +98,17 @@ export function Settings() {
     }
   }, [isDataLoaded]);
 
+  // Local check preferences
+  useEffect(() => {
+    getBulkCheckThreshold().then(setBulkCheckThreshold);
+    getHistoryRetentionDays().then(setHistoryRetentionDays);
+    getResultDisplayThrottle().then(setResultDisplayThrottle);
+    getQuotaPreview().then(setQuotaPreview);
+    getCsvUtf8Bom().then(setCsvUtf8Bom);
+    getXlsxIncludeImages().then(setXlsxIncludeImages);
+    getPageBadgesEnabled().then(setPageBadges);
+  }, []);
+
   // Sync preferences with header controls
   useEffect(() => {
     setPreferences(prev => ({
@@ -178,6 +216,45 @@ export function Settings() {
 
   };
 
+  const handleBulkThresholdChange = (value: string) => {
+    const threshold = parseInt(value, 10);
+    setBulkCheckThreshold(Number.isNaN(threshold) ? 0 : threshold);
+    if (threshold > 0) {
+      saveBulkCheckThreshold(threshold);
+    }
+  };
+
+  const handleHistoryRetentionChange = (value: string) => {
+    const days = parseInt(value, 10);
+    setHistoryRetentionDays(days);
+    saveHistoryRetentionDays(days);
+  };
+
+  const handleResultDisplayThrottleChange = (enabled: boolean) => {
+    setResultDisplayThrottle(enabled);
+    saveResultDisplayThrottle(enabled);
+  };
+
+  const handleQuotaPreviewChange = (enabled: boolean) => {
+    setQuotaPreview(enabled);
+    saveQuotaPreview(enabled);
+  };
+
+  const handleCsvUtf8BomChange = (enabled: boolean) => {
+    setCsvUtf8Bom(enabled);
+    saveCsvUtf8Bom(enabled);
+  };
+
+  const handleXlsxIncludeImagesChange = (enabled: boolean) => {
+    setXlsxIncludeImages(enabled);
+    saveXlsxIncludeImages(enabled);
+  };
+
+  const handlePageBadgesChange = (enabled: boolean) => {
+    setPageBadges(enabled);
+    savePageBadgesEnabled(enabled);
+  };
+
   const handleSaveApiSettings = async () => {
     try {
       setIsSaving(true);
@@ -368,27 +445,9 @@ export function Settings() {
                 value={apiSettings.marketplace}
                 onChange={(e) => handleApiSettingsChange('marketplace', e.target.value)}
               >
-                <option value="US">amazon.com</option>
-                <option value="CA">amazon.ca</option>
-                <option value="MX">amazon.com.mx</option>
-                <option value="BR">amazon.com.br</option>
-                <option value="DE">amazon.de</option>
-                <option value="ES">amazon.es</option>
-                <option value="FR">amazon.fr</option>
-                <option value="IT">amazon.it</option>
-                <option value="NL">amazon.nl</option>
-                <option value="GB">amazon.co.uk</option>
-                <option value="SE">amazon.se</option>
-                <option value="PL">amazon.pl</option>
-                <option value="BE">amazon.com.be</option>
-                <option value="EG">amazon.eg</option>
-                <option value="TR">amazon.com.tr</option>
-                <option value="SA">amazon.sa</option>
-                <option value="AE">amazon.ae</option>
-                <option value="IN">amazon.in</option>
-                <option value="JP">amazon.co.jp</option>
-                <option value="AU">amazon.com.au</option>
-                <option value="SG">amazon.sg</option>
+                {MARKETPLACES.map(({ code, domain }) => (
+                  <option key={code} value={code}>{domain}</option>
+                ))}
               </select>
             </div>
             
@@ -498,6 +557,157 @@ export function Settings() {
                 <span className="slider"></span>
               </label>
             </div>
+
+            {/* Bulk Job Threshold */}
+            <div className="preference-item">
+              <div className="preference-label">
+                <label htmlFor="bulkCheckThreshold" className="preference-text">
+                  {t('bulkCheckThreshold')}
+                </label>
+                <p className="preference-description">
+                  {t('bulkCheckThresholdDesc')}
+                </p>
+              </div>
+              <input
+                type="number"
+                id="bulkCheckThreshold"
+                className="field-input preference-number"
+                min={1}
+                value={bulkCheckThreshold || ''}
+                onChange={(e) => handleBulkThresholdChange(e.target.value)}
+              />
+            </div>
+
+            {/* Result Display Throttle */}
+            <div className="preference-item">
+              <div className="preference-label">
+                <label className="preference-text">
+                  {t('resultDisplayThrottle')}
+                </label>
+                <p className="preference-description">
+                  {t('resultDisplayThrottleDesc')}
+                </p>
+              </div>
+              <label className="switch">
+                <input
+                  type="checkbox"
+                  id="resultDisplayThrottle"
+                  checked={resultDisplayThrottle}
+                  onChange={(e) => handleResultDisplayThrottleChange(e.target.checked)}
+                />
+                <span className="slider"></span>
+              </label>
+            </div>
+
+            {/* Quota Preview */}
+            <div className="preference-item">
+              <div className="preference-label">
+                <label className="preference-text">
+                  {t('quotaPreview')}
+                </label>
+                <p className="preference-description">
+                  {t('quotaPreviewDesc')}
+                </p>
+              </div>
+              <label className="switch">
+                <input
+                  type="checkbox"
+                  id="quotaPreview"
+                  checked={quotaPreview}
+                  onChange={(e) => handleQuotaPreviewChange(e.target.checked)}
+                />
+                <span className="slider"></span>
+              </label>
+            </div>
+
+            {/* History Retention */}
+            <div className="preference-item">
+              <div className="preference-label">
+                <label htmlFor="historyRetention" className="preference-text">
+                  {t('historyRetention')}
+                </label>
+                <p className="preference-description">
+                  {t('historyRetentionDesc')}
+                </p>
+              </div>
+              <div className="custom-select-wrapper">
+                <select
+                  id="historyRetention"
+                  className="form-select"
+                  value={historyRetentionDays}
+                  onChange={(e) => handleHistoryRetentionChange(e.target.value)}
+                >
+                  {HISTORY_RETENTION_OPTIONS.map(days => (
+                    <option key={days} value={days}>
+                      {days === 0 ? t('retentionForever') : t('retentionDays').replace('{days}', days.toString())}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* CSV UTF-8 BOM */}
+            <div className="preference-item">
+              <div className="preference-label">
+                <label className="preference-text">
+                  {t('csvUtf8Bom')}
+                </label>
+                <p className="preference-description">
+                  {t('csvUtf8BomDesc')}
+                </p>
+              </div>
+              <label className="switch">
+                <input
+                  type="checkbox"
+                  id="csvUtf8Bom"
+                  checked={csvUtf8Bom}
+                  onChange={(e) => handleCsvUtf8BomChange(e.target.checked)}
+                />
+                <span className="slider"></span>
+              </label>
+            </div>
+
+            {/* XLSX Images */}
+            <div className="preference-item">
+              <div className="preference-label">
+                <label className="preference-text">
+                  {t('xlsxIncludeImages')}
+                </label>
+                <p className="preference-description">
+                  {t('xlsxIncludeImagesDesc')}
+                </p>
+              </div>
+              <label className="switch">
+                <input
+                  type="checkbox"
+                  id="xlsxIncludeImages"
+                  checked={xlsxIncludeImages}
+                  onChange={(e) => handleXlsxIncludeImagesChange(e.target.checked)}
+                />
+                <span className="slider"></span>
+              </label>
+            </div>
+
+            {/* Amazon Page Badges */}
+            <div className="preference-item">
+              <div className="preference-label">
+                <label className="preference-text">
+                  {t('pageBadges')}
+                </label>
+                <p className="preference-description">
+                  {t('pageBadgesDesc')}
+                </p>
+              </div>
+              <label className="switch">
+                <input
+                  type="checkbox"
+                  id="pageBadges"
+                  checked={pageBadges}
+                  onChange={(e) => handlePageBadgesChange(e.target.checked)}
+                />
+                <span className="slider"></span>
+              </label>
+            </div>
           </div>
         </div>
 
@@ -3,21 +3,33 @@ class ApiClient {
         this.baseURL = 'https://professionalfastchecker-production.up.railway.app';
     }
 
-    async checkASINs(asins, manualCheckOptions = {}) {
+    // Works in the side panel (window) and in the background service worker (self)
+    getAuthService() {
+        return (typeof window !== 'undefined' ? window : self).authService;
+    }
+
+    async checkASINs(asins, manualCheckOptions = {}, requestOptions = {}) {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/asin/check`,
                 {
                     method: 'POST',
                     body: JSON.stringify({ 
                         asins,
                         ...manualCheckOptions 
-                    })
+                    }),
+                    // Optional AbortSignal so an in-flight check can be cancelled
+                    signal: requestOptions.signal
                 }
             );
 
             const data = await response.json();
 
+            // Monthly check limit used up; nothing in the batch was checked
+            if (response.status === 402 || data.code === 'QUOTA_EXCEEDED') {
+                return { success: false, quotaExceeded: true, error: data.error || 'Monthly check limit reached', usage: data.usage };
+            }
+
             if (!response.ok) {
                 throw new Error(data.error || 'ASIN check failed');
             }
@@ -25,6 +37,9 @@ class ApiClient {
             return { success: true, results: data.results, usage: data.usage };
 
         } catch (error) {
+            if (error.name === 'AbortError') {
+                return { success: false, aborted: true, error: error.message };
+            }
             console.error('ASIN check error:', error);
             return { success: false, error: error.message };
         }
@@ -32,7 +47,7 @@ class ApiClient {
 
     async getSubscriptionStatus() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/subscription/status`
             );
 
@@ -52,7 +67,7 @@ class ApiClient {
 
     async createCheckoutSession(planCode) {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/subscription/checkout`,
                 {
                     method: 'POST',
@@ -76,7 +91,7 @@ class ApiClient {
 
     async downgradePlan(targetPlan) {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/subscription/downgrade`,
                 {
                     method: 'POST',
@@ -100,7 +115,7 @@ class ApiClient {
 
     async cancelPendingChange() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/subscription/cancel-pending-change`,
                 {
                     method: 'DELETE'
@@ -123,7 +138,7 @@ class ApiClient {
 
     async cancelSubscription() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/subscription/cancel`,
                 {
                     method: 'DELETE'
@@ -146,7 +161,7 @@ class ApiClient {
 
     async getBillingInfo() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/subscription/billing-info`
             );
 
@@ -166,7 +181,7 @@ class ApiClient {
 
     async saveSettings(settings) {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/user/settings`,
                 {
                     method: 'POST',
@@ -190,7 +205,7 @@ class ApiClient {
 
     async testConnection() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/user/test-connection`
             );
 
@@ -210,7 +225,7 @@ class ApiClient {
 
     async getUserProfile() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/auth/profile`
             );
 
@@ -230,7 +245,7 @@ class ApiClient {
 
     async getUsageStatistics() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/user/usage-statistics`
             );
 
@@ -250,7 +265,7 @@ class ApiClient {
 
     async getSubscriptionData() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/user/subscription-data`
             );
 
@@ -270,7 +285,7 @@ class ApiClient {
 
     async getAvailablePlans() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/subscription/plans`
             );
 
@@ -291,7 +306,7 @@ class ApiClient {
     async exportUserData(language = 'en') {
         try {
             // Use ASIN export endpoint for current month's data
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/asin/export?language=${language}`
             );
 
@@ -313,7 +328,7 @@ class ApiClient {
 
     async changeEmail(newEmail, password) {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/user/change-email`,
                 {
                     method: 'POST',
@@ -337,7 +352,7 @@ class ApiClient {
 
     async changePassword(currentPassword, newPassword) {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/user/change-password`,
                 {
                     method: 'POST',
@@ -361,7 +376,7 @@ class ApiClient {
 
     async createBulkJob(asins) {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/asin/bulk-check`,
                 {
                     method: 'POST',
@@ -383,9 +398,34 @@ class ApiClient {
         }
     }
 
+    // Resolve UPC/EAN/ISBN codes to catalog ASINs (one code can match several listings)
+    async lookupIdentifiers(identifiers, identifierType) {
+        try {
+            const response = await this.getAuthService().makeAuthenticatedRequest(
+                `${this.baseURL}/api/catalog/identifiers`,
+                {
+                    method: 'POST',
+                    body: JSON.stringify({ identifiers, identifierType })
+                }
+            );
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Identifier lookup failed');
+            }
+
+            return { success: true, matches: data.matches || [] };
+
+        } catch (error) {
+            console.error('Identifier lookup error:', error);
+            return { success: false, error: error.message };
+        }
+    }
+
     async getSettings() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/user/settings`
             );
 
@@ -405,7 +445,7 @@ class ApiClient {
 
     async getUserUsage() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/user/usage`
             );
 
@@ -425,7 +465,7 @@ class ApiClient {
 
     async getSellerOwnership() {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/user/seller-ownership`
             );
 
@@ -445,7 +485,7 @@ class ApiClient {
 
     async getJobStatus(jobId) {
         try {
-            const response = await (window.authService || self.authService).makeAuthenticatedRequest(
+            const response = await this.getAuthService().makeAuthenticatedRequest(
                 `${this.baseURL}/api/asin/job/${jobId}`
             );
 
@@ -463,41 +503,73 @@ class ApiClient {
         }
     }
 
+    // Server-sent events read with fetch, since EventSource is not available
+    // in the background service worker. Parse errors go to onError and only
+    // affect one message; onComplete is called once the connection ends.
     async createSSEStream(jobId, onMessage, onError, onComplete) {
-        const token = await (window.authService || self.authService).getToken();
-        const eventSource = new EventSource(
-            `${this.baseURL}/api/asin/stream/${jobId}?token=${encodeURIComponent(token)}`
+        const token = await this.getAuthService().getToken();
+        const controller = new AbortController();
+        const response = await fetch(
+            `${this.baseURL}/api/asin/stream/${jobId}?token=${encodeURIComponent(token)}`,
+            {
+                headers: { 'Accept': 'text/event-stream' },
+                signal: controller.signal
+            }
         );
 
-        eventSource.onmessage = (event) => {
+        if (!response.ok || !response.body) {
+            throw new Error(`Failed to open job stream (HTTP ${response.status})`);
+        }
+
+        let open = true;
+        const dispatch = (block) => {
+            // "data:" lines of one event are joined; comments and other fields are skipped
+            const data = block
+                .split(/\r?\n/)
+                .filter(line => line.startsWith('data:'))
+                .map(line => line.slice(5).replace(/^ /, ''))
+                .join('\n');
+            if (!data) return;
             try {
-                const data = JSON.parse(event.data);
-                onMessage(data);
+                onMessage(JSON.parse(data));
             } catch (error) {
                 console.error('SSE parse error:', error);
                 onError(error);
             }
         };
 
-        eventSource.onerror = (error) => {
-            console.error('SSE connection error:', error);
-            onError(error);
-        };
-
-        // Handle connection close
-        const checkConnection = setInterval(() => {
-            if (eventSource.readyState === EventSource.CLOSED) {
-                clearInterval(checkConnection);
+        const read = async () => {
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            try {
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    buffer += decoder.decode(value, { stream: true });
+                    const blocks = buffer.split(/\r?\n\r?\n/);
+                    buffer = blocks.pop();
+                    blocks.forEach(dispatch);
+                }
+                // An event not followed by a blank line before the stream ended
+                dispatch(buffer);
+            } catch (error) {
+                if (open) {
+                    console.error('SSE connection error:', error);
+                }
+            } finally {
+                open = false;
                 onComplete();
             }
-        }, 1000);
+        };
+        read();
 
         return {
             close: () => {
-                eventSource.close();
-                clearInterval(checkConnection);
+                open = false;
+                controller.abort();
             },
-            readyState: () => eventSource.readyState
+            readyState: () => (open ? 1 : 2)
         };
     }
 
@@ -512,4 +584,9 @@ class ApiClient {
 }
 
 // Create global instance
-window.apiClient = new ApiClient();
+const apiClient = new ApiClient();
+if (typeof window !== 'undefined') {
+    window.apiClient = apiClient;
+} else if (typeof self !== 'undefined') {
+    self.apiClient = apiClient;
+}
@@ -12,6 +12,7 @@ import { Login } from './pages/auth/Login';
 import { Register } from './pages/auth/Register';
 import { Verification } from './pages/auth/Verification';
 import { MainApp } from './pages/main/MainApp';
+import { AppTab } from './types/app';
 import './styles/common.css';
 import './styles/layout.css';
 import './components/layout/Header.css';
@@ -122,7 +123,7 @@ function AppContent() {
     return (
       <div className="app-container">
         <div className="main-content auth-mode">
-          <Verification switchTab={(tab) => switchTab(tab as 'check' | 'settings' | 'account' | 'subscription')} />
+          <Verification switchTab={(tab) => switchTab(tab as AppTab)} />
         </div>
       </div>
     );
@@ -132,7 +133,7 @@ function AppContent() {
     return (
       <div className="app-container">
         <div className="main-content auth-mode">
-          <Login switchTab={(tab) => switchTab(tab as 'check' | 'settings' | 'account' | 'subscription')} />
+          <Login switchTab={(tab) => switchTab(tab as AppTab)} />
         </div>
       </div>
     );
@@ -1,10 +1,12 @@
+export type AppTab = 'check' | 'history' | 'settings' | 'account' | 'subscription';
+
 export interface AppState {
-  activeTab: 'check' | 'settings' | 'account' | 'subscription';
+  activeTab: AppTab;
   isLoading: boolean;
 }
 
 export interface AppActions {
-  switchTab: (tab: 'check' | 'settings' | 'account' | 'subscription') => void;
+  switchTab: (tab: AppTab) => void;
   setLoading: (loading: boolean) => void;
 }
 
@@ -0,0 +1,169 @@
+// ASIN Check Types
+export interface RestrictionLink {
+  resource: string;
+  verb?: string;
+  title?: string;
+  type?: string;
+}
+
+export interface RestrictionReason {
+  message: string;
+  reasonCode?: string; // APPROVAL_REQUIRED, ASIN_NOT_FOUND, NOT_ELIGIBLE
+  links?: RestrictionLink[];
+}
+
+// One entry of the listing-restrictions payload, per condition
+export interface ListingRestriction {
+  marketplaceId?: string;
+  conditionType?: string; // e.g. new_new, used_like_new
+  reasons?: RestrictionReason[];
+}
+
+// Item conditions a check can be run for (sent in manualCheckOptions)
+export type ItemCondition = 'new' | 'used' | 'collectible' | 'refurbished';
+
+export interface ConditionEligibility {
+  sellable: boolean;
+  detailedStatus?: string;
+}
+
+export interface CheckResult {
+  asin: string;
+  title?: string;
+  brand?: string;
+  status: string;
+  detailedStatus?: string;
+  sellable?: boolean;
+  error?: string;
+  details?: {
+    title?: string;
+    brand?: string;
+    itemName?: string;
+    brandName?: string;
+    imageUrl?: string;
+  };
+  imageUrl?: string;
+  restrictions?: ListingRestriction[];
+  conditions?: Partial<Record<ItemCondition, ConditionEligibility>>; // when conditions were requested
+  identifier?: string; // UPC/EAN/ISBN codes the ASIN was resolved from, comma-separated
+  marketplace?: string; // marketplace code the ASIN was checked against
+  checkedAt?: number;
+}
+
+// Result Filter Types
+export type StatusClass = 'success' | 'warning' | 'error' | 'not-found';
+
+export type ResultSortField = 'arrival' | 'input' | 'status' | 'brand';
+
+export interface ResultFilters {
+  statuses: StatusClass[]; // empty shows every status
+  query: string;
+  sortField: ResultSortField;
+  sortOrder: 'asc' | 'desc';
+}
+
+// Results View Types
+export type ResultView = 'cards' | 'table';
+
+export type ResultTableColumn =
+  | 'asin'
+  | 'title'
+  | 'brand'
+  | 'status'
+  | 'detailedStatus'
+  | 'conditions'
+  | 'marketplace'
+  | 'checkedAt';
+
+// Background Check Job Types
+export type CheckJobStatus = 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface CheckJob {
+  id: string;
+  status: CheckJobStatus;
+  asins: string[]; // unique ASINs of the current run
+  inputOrder: string[]; // original input order (with duplicates) for CSV export
+  identifiers?: Record<string, string[]>; // ASIN -> source UPC/EAN/ISBN codes
+  marketplace?: string; // marketplace code the run was checked against
+  marketplaces?: string[]; // every ASIN is checked in each of these, in order
+  conditions?: ItemCondition[]; // empty or missing checks without a condition
+  nextIndex: number; // first check (ASIN x marketplace) that has not been sent yet
+  bulkJobId?: string; // server job the ASINs were submitted to, followed again after a worker restart
+  results: CheckResult[]; // arrival order
+  failedCount: number;
+  unsentAsins: string[];
+  quotaExceeded?: boolean; // stopped because the monthly check limit was reached
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type CheckJobSummary = Omit<CheckJob, 'results'> & {
+  resultCount: number;
+};
+
+// Check History Types (IndexedDB)
+export interface CheckHistoryEntry {
+  id: string; // id of the check job that produced the run
+  status: 'completed' | 'cancelled';
+  marketplace?: string;
+  marketplaces?: string[];
+  conditions?: ItemCondition[];
+  inputOrder: string[];
+  identifiers?: Record<string, string[]>;
+  results: CheckResult[];
+  failedCount: number;
+  unsentAsins: string[];
+  createdAt: number;
+  completedAt: number;
+}
+
+export type CheckHistorySummary = Omit<CheckHistoryEntry, 'results'> & {
+  resultCount: number;
+  sellableCount: number;
+};
+
+// Run Comparison Types
+export type StatusCategory =
+  | 'Eligible'
+  | 'APPROVAL REQUIRED'
+  | 'Restricted'
+  | 'Ineligible'
+  | 'NOT_FOUND_IN_MARKETPLACE'
+  | 'ERROR'
+  | 'UNKNOWN';
+
+export type RunDiffChange = 'changed' | 'unchanged' | 'added' | 'removed';
+
+export interface RunDiffRow {
+  asin: string;
+  marketplace: string; // empty for runs saved before results carried one
+  before: CheckResult | null; // older run
+  after: CheckResult | null; // newer run
+  beforeCategory: StatusCategory | null;
+  afterCategory: StatusCategory | null;
+  change: RunDiffChange;
+}
+
+export interface RunDiff {
+  base: CheckHistorySummary; // older run
+  compare: CheckHistorySummary; // newer run
+  marketplaces: string[]; // of both runs, newer run's first
+  marketplaceMismatch: boolean; // the runs were checked in different marketplaces
+  rows: RunDiffRow[];
+}
+
+// Catalog Identifier Lookup Types
+export type IdentifierType = 'UPC' | 'EAN' | 'ISBN';
+
+export interface CatalogCandidate {
+  asin: string;
+  title?: string;
+  brand?: string;
+  imageUrl?: string;
+}
+
+export interface IdentifierMatch {
+  identifier: string;
+  identifierType: IdentifierType;
+  candidates: CatalogCandidate[];
+}
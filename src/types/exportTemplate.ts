@@ -0,0 +1,34 @@
+// Export Template Types
+export type ExportColumn =
+  | 'asin'
+  | 'identifier'
+  | 'title'
+  | 'brand'
+  | 'status'
+  | 'detailedStatus'
+  | 'conditions' // one column per item condition of the run
+  | 'marketplace'
+  | 'image'
+  | 'checkedAt';
+
+export type ExportDelimiter = ',' | ';' | '\t';
+
+export type ExportDateFormat = 'locale' | 'isoDate' | 'isoDateTime' | 'timestamp';
+
+// localized label, raw status code, or true/false for sellable
+export type ExportStatusFormat = 'text' | 'code' | 'sellable';
+
+export interface ExportTemplateColumn {
+  column: ExportColumn;
+  header?: string; // replaces the default header when set
+}
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  columns: ExportTemplateColumn[]; // in export order
+  delimiter: ExportDelimiter;
+  dateFormat: ExportDateFormat;
+  statusFormat: ExportStatusFormat;
+  createdAt: number;
+}
@@ -0,0 +1,60 @@
+import { CheckJob, CheckJobSummary, CheckResult, ItemCondition } from './check';
+
+// Port name the side panel uses to attach to the background check job
+export const CHECK_JOB_PORT = 'check-job';
+
+// Storage key for the ASIN a page badge asked the side panel to show
+export const PENDING_ASIN_DETAILS_KEY = 'pendingAsinDetails';
+
+export interface PendingAsinDetails {
+  asin: string;
+  marketplace: string;
+  result?: CheckResult; // missing when no result is known yet
+  requestedAt: number;
+}
+
+// Keyboard shortcuts (chrome.commands) leave the panel action here to be run
+export const PENDING_PANEL_COMMAND_KEY = 'pendingPanelCommand';
+
+export type PanelCommand = 'focusInput' | 'startCheck' | 'exportResults';
+
+export interface PendingPanelCommand {
+  command: PanelCommand;
+  requestedAt: number;
+}
+
+// Side panel -> background (chrome.runtime.sendMessage)
+export type BackgroundMessage =
+  | {
+      type: 'START_CHECK';
+      asins: string[];
+      inputOrder: string[];
+      identifiers?: Record<string, string[]>;
+      marketplace?: string;
+      marketplaces?: string[];
+      conditions?: ItemCondition[];
+    }
+  | { type: 'CHECK_REMAINING' }
+  | { type: 'PAUSE_CHECK' }
+  | { type: 'RESUME_CHECK' }
+  | { type: 'CANCEL_CHECK' }
+  | { type: 'CLEAR_CHECK' }
+  | { type: 'SYNC_WATCHLISTS' }
+  | { type: 'RUN_WATCHLIST'; watchlistId: string }
+  // Content scripts -> background
+  | { type: 'GET_ASIN_STATUSES'; asins: string[]; marketplace: string; cachedOnly?: boolean }
+  | { type: 'OPEN_ASIN_DETAILS'; asin: string; marketplace: string };
+
+export interface BackgroundResponse {
+  success: boolean;
+  job?: CheckJobSummary | null;
+  results?: CheckResult[]; // GET_ASIN_STATUSES
+  error?: string;
+}
+
+// Background -> side panel (check job port)
+export type CheckJobEvent =
+  | { type: 'JOB_SNAPSHOT'; job: CheckJob | null }
+  | { type: 'JOB_STATE'; job: CheckJobSummary }
+  | { type: 'JOB_RESULTS'; jobId: string; results: CheckResult[] }
+  | { type: 'USAGE_UPDATED'; usage: any };
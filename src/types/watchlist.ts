@@ -0,0 +1,30 @@
+import { StatusCategory } from './check';
+
+// Watchlist Types
+export type WatchlistSchedule = 'daily' | 'weekly' | 'custom';
+
+export type WatchlistRunStatus = 'completed' | 'postponed' | 'failed';
+
+export interface WatchlistChange {
+  asin: string;
+  title?: string;
+  from: StatusCategory;
+  to: StatusCategory;
+  detectedAt: number;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  asins: string[];
+  schedule: WatchlistSchedule;
+  customIntervalHours: number; // used when schedule is 'custom'
+  enabled: boolean;
+  statuses: Record<string, StatusCategory>; // last known status per ASIN
+  changes: WatchlistChange[]; // newest first
+  lastRunAt?: number;
+  lastRunStatus?: WatchlistRunStatus;
+  lastRunMessage?: string;
+  nextRunAt?: number;
+  createdAt: number;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { looksLikeUrl, parseAmazonUrl } from './amazonUrl';
+
+describe('parseAmazonUrl', () => {
+  it.each([
+    ['https://www.amazon.com/Some-Product-Name/dp/B08N5WRWNW/ref=sr_1_1?keywords=x', 'B08N5WRWNW'],
+    ['https://www.amazon.com/dp/product/B08N5WRWNW', 'B08N5WRWNW'],
+    ['https://www.amazon.com/gp/product/B08N5WRWNW?psc=1', 'B08N5WRWNW'],
+    ['https://www.amazon.com/gp/aw/d/B08N5WRWNW', 'B08N5WRWNW'],
+    ['https://www.amazon.com/exec/obidos/ASIN/0306406152/', '0306406152'],
+    ['https://www.amazon.com/exec/obidos/tg/detail/-/0306406152', '0306406152'],
+    ['https://www.amazon.com/o/ASIN/B08N5WRWNW', 'B08N5WRWNW'],
+    ['https://www.amazon.com/product-reviews/B08N5WRWNW#reviews', 'B08N5WRWNW'],
+    ['https://www.amazon.com/dp/b08n5wrwnw', 'B08N5WRWNW']
+  ])('finds the ASIN in %s', (url, asin) => {
+    expect(parseAmazonUrl(url)?.asin).toBe(asin);
+  });
+
+  it('falls back to ASIN query parameters', () => {
+    expect(parseAmazonUrl('https://www.amazon.com/s?k=lamp&pd_rd_i=B08N5WRWNW')?.asin).toBe('B08N5WRWNW');
+    expect(parseAmazonUrl('https://www.amazon.com/gp/offer-listing?ASIN=B08N5WRWNW')?.asin).toBe('B08N5WRWNW');
+  });
+
+  it('ignores query parameters that are not 10 characters', () => {
+    expect(parseAmazonUrl('https://www.amazon.com/s?asin=B08N5')?.asin).toBeNull();
+  });
+
+  it('does not take a longer path segment for an ASIN', () => {
+    expect(parseAmazonUrl('https://www.amazon.com/dp/B08N5WRWNWX')?.asin).toBeNull();
+  });
+
+  it('names the marketplace from the domain, longest match first', () => {
+    expect(parseAmazonUrl('https://www.amazon.co.uk/dp/B08N5WRWNW')?.marketplace).toBe('GB');
+    expect(parseAmazonUrl('https://www.amazon.com.mx/dp/B08N5WRWNW')?.marketplace).toBe('MX');
+    expect(parseAmazonUrl('https://smile.amazon.com/dp/B08N5WRWNW')?.marketplace).toBe('US');
+  });
+
+  it('accepts links without a scheme', () => {
+    expect(parseAmazonUrl('amazon.de/dp/B08N5WRWNW')).toMatchObject({ asin: 'B08N5WRWNW', marketplace: 'DE' });
+  });
+
+  it('parses short links without a marketplace', () => {
+    expect(parseAmazonUrl('https://amzn.to/3abcDEF')).toEqual({ asin: null, host: 'amzn.to', marketplace: null });
+    expect(parseAmazonUrl('https://amzn.to/3abcDEF?asin=B08N5WRWNW')?.asin).toBe('B08N5WRWNW');
+    expect(parseAmazonUrl('https://a.co/d/abc123')?.marketplace).toBeNull();
+  });
+
+  it('returns null for other sites', () => {
+    expect(parseAmazonUrl('https://keepa.com/#!product/1-B08N5WRWNW')).toBeNull();
+    expect(parseAmazonUrl('https://notamazon.com/dp/B08N5WRWNW')).toBeNull();
+  });
+});
+
+describe('looksLikeUrl', () => {
+  it('detects links with and without a scheme', () => {
+    expect(looksLikeUrl('https://example.com')).toBe(true);
+    expect(looksLikeUrl('www.amazon.com/dp/B08N5WRWNW')).toBe(true);
+    expect(looksLikeUrl('amzn.to/3abc')).toBe(true);
+    expect(looksLikeUrl('a.co/d/abc')).toBe(true);
+  });
+
+  it('leaves plain ASINs alone', () => {
+    expect(looksLikeUrl('B08N5WRWNW')).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+// Amazon URL utility functions - pull ASINs out of product links
+
+import { getMarketplaceByHost } from './marketplaces';
+
+const ASIN_PATH_PATTERNS = [
+  /\/dp\/(?:product\/)?([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/gp\/product\/([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/gp\/aw\/d\/([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/exec\/obidos\/(?:ASIN|tg\/detail\/-)\/([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/o\/ASIN\/([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/product-reviews\/([A-Z0-9]{10})(?=[/?#]|$)/i
+];
+const ASIN_QUERY_PARAMS = ['asin', 'ASIN', 'creativeASIN', 'pd_rd_i'];
+const SHORT_LINK_HOSTS = ['amzn.to', 'amzn.eu', 'amzn.asia', 'a.co'];
+
+export interface AmazonLink {
+  asin: string | null;
+  host: string;
+  marketplace: string | null; // null for short links, which don't name a marketplace
+}
+
+const toUrl = (value: string): URL | null => {
+  try {
+    return new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+};
+
+const isShortLinkHost = (host: string) => {
+  return SHORT_LINK_HOSTS.some(shortHost => host === shortHost || host.endsWith(`.${shortHost}`));
+};
+
+export const looksLikeUrl = (value: string): boolean => {
+  return /^https?:\/\//i.test(value) || /^(www\.)?(amazon\.|amzn\.|a\.co\/)/i.test(value);
+};
+
+/**
+ * Parses an Amazon product or short link. Returns null when the value is not
+ * an Amazon link at all, and a link with a null ASIN when none could be found.
+ */
+export const parseAmazonUrl = (value: string): AmazonLink | null => {
+  const url = toUrl(value.trim());
+  if (!url) return null;
+
+  const host = url.hostname.toLowerCase();
+  const marketplace = getMarketplaceByHost(host);
+  if (!marketplace && !isShortLinkHost(host)) return null;
+
+  let asin: string | null = null;
+  for (const pattern of ASIN_PATH_PATTERNS) {
+    const match = url.pathname.match(pattern);
+    if (match) {
+      asin = match[1].toUpperCase();
+      break;
+    }
+  }
+
+  if (!asin) {
+    const param = ASIN_QUERY_PARAMS.map(name => url.searchParams.get(name)).find(v => v && /^[A-Z0-9]{10}$/i.test(v));
+    asin = param ? param.toUpperCase() : null;
+  }
+
+  return { asin, host, marketplace: marketplace?.code || null };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { isValidAsin, isValidIsbn10, normalizeAsin, parseAsinInput } from './asin';
+
+describe('normalizeAsin', () => {
+  it('uppercases and trims', () => {
+    expect(normalizeAsin('  b08n5wrwnw ')).toBe('B08N5WRWNW');
+  });
+
+  it('drops quotes, brackets and trailing URL fragments', () => {
+    expect(normalizeAsin('"B08N5WRWNW"')).toBe('B08N5WRWNW');
+    expect(normalizeAsin('(B08N5WRWNW)')).toBe('B08N5WRWNW');
+    expect(normalizeAsin('B08N5WRWNW/ref=sr_1_1')).toBe('B08N5WRWNW');
+    expect(normalizeAsin('B08N5WRWNW?th=1')).toBe('B08N5WRWNW');
+  });
+});
+
+describe('isValidIsbn10', () => {
+  it('accepts valid check digits, including X', () => {
+    expect(isValidIsbn10('0306406152')).toBe(true);
+    expect(isValidIsbn10('080442957X')).toBe(true);
+  });
+
+  it('rejects a wrong check digit or shape', () => {
+    expect(isValidIsbn10('0306406153')).toBe(false);
+    expect(isValidIsbn10('03064061')).toBe(false);
+    expect(isValidIsbn10('X306406152')).toBe(false);
+  });
+});
+
+describe('isValidAsin', () => {
+  it('accepts B0 ASINs and ISBN-10 book ASINs', () => {
+    expect(isValidAsin('B08N5WRWNW')).toBe(true);
+    expect(isValidAsin('0306406152')).toBe(true);
+  });
+
+  it('rejects other 10 character values', () => {
+    expect(isValidAsin('A08N5WRWNW')).toBe(false);
+    expect(isValidAsin('B08N5WRWN')).toBe(false);
+    expect(isValidAsin('1234567890')).toBe(false);
+  });
+});
+
+describe('parseAsinInput', () => {
+  it('splits on whitespace, commas and semicolons and keeps duplicates in order', () => {
+    const parsed = parseAsinInput('B08N5WRWNW, B07XJ8C8F5;B08N5WRWNW\nnope');
+    expect(parsed.asins).toEqual(['B08N5WRWNW', 'B07XJ8C8F5', 'B08N5WRWNW']);
+    expect(parsed.rejected).toEqual(['nope']);
+  });
+
+  it('reports token positions in the original text', () => {
+    const [first, second] = parseAsinInput('b08n5wrwnw  B07XJ8C8F5').tokens;
+    expect(first).toMatchObject({ raw: 'b08n5wrwnw', value: 'B08N5WRWNW', valid: true, start: 0, end: 10 });
+    expect(second).toMatchObject({ start: 12, end: 22 });
+  });
+
+  it('takes ASINs and marketplaces from Amazon links', () => {
+    const [token] = parseAsinInput('https://www.amazon.de/dp/B08N5WRWNW?th=1').tokens;
+    expect(token).toMatchObject({ value: 'B08N5WRWNW', valid: true, marketplace: 'DE' });
+  });
+
+  it('rejects Amazon links without an ASIN', () => {
+    const parsed = parseAsinInput('https://www.amazon.com/s?k=lamp');
+    expect(parsed.asins).toEqual([]);
+    expect(parsed.rejected).toEqual(['https://www.amazon.com/s?k=lamp']);
+  });
+
+  it('reports each rejected token once', () => {
+    expect(parseAsinInput('bad bad B08N5WRWNW').rejected).toEqual(['bad']);
+  });
+});
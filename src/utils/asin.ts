@@ -0,0 +1,71 @@
+// ASIN utility functions - shared parser for everything users paste or import
+
+import { looksLikeUrl, parseAmazonUrl } from './amazonUrl';
+
+// Amazon-issued ASINs start with B0; book ASINs are their ISBN-10
+const B0_ASIN_PATTERN = /^B0[A-Z0-9]{8}$/;
+const ISBN10_PATTERN = /^\d{9}[\dX]$/;
+const TOKEN_PATTERN = /[^\s,;]+/g;
+
+export interface AsinToken {
+  raw: string;
+  value: string; // normalized
+  valid: boolean;
+  start: number;
+  end: number;
+  marketplace?: string | null; // set for Amazon links, from the link's domain
+}
+
+export interface ParsedAsinInput {
+  tokens: AsinToken[];
+  asins: string[]; // valid values in input order (duplicates kept)
+  rejected: string[]; // invalid raw tokens, unique
+}
+
+export const isValidIsbn10 = (value: string): boolean => {
+  if (!ISBN10_PATTERN.test(value)) return false;
+  const sum = value.split('').reduce((total, char, index) => {
+    const digit = char === 'X' ? 10 : Number(char);
+    return total + digit * (10 - index);
+  }, 0);
+  return sum % 11 === 0;
+};
+
+/**
+ * Uppercases a value and drops what commonly sticks to a copied ASIN:
+ * surrounding quotes/brackets and trailing URL fragments ("/ref=...", "?th=1").
+ */
+export const normalizeAsin = (value: string): string => {
+  return value
+    .trim()
+    .split(/[/?#&]/)[0]
+    .replace(/^[^A-Za-z0-9]+|[^A-Za-z0-9]+$/g, '')
+    .toUpperCase();
+};
+
+export const isValidAsin = (value: string): boolean => {
+  return B0_ASIN_PATTERN.test(value) || isValidIsbn10(value);
+};
+
+export const parseAsinInput = (text: string): ParsedAsinInput => {
+  const tokens: AsinToken[] = [];
+  const asins: string[] = [];
+  const rejected = new Set<string>();
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const raw = match[0];
+    const start = match.index || 0;
+    const link = looksLikeUrl(raw) ? parseAmazonUrl(raw) : null;
+    const value = link ? link.asin || '' : normalizeAsin(raw);
+    const valid = isValidAsin(value);
+
+    tokens.push({ raw, value, valid, start, end: start + raw.length, marketplace: link?.marketplace });
+    if (valid) {
+      asins.push(value);
+    } else {
+      rejected.add(raw);
+    }
+  }
+
+  return { tokens, asins, rejected: [...rejected] };
+};
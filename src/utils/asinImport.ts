@@ -0,0 +1,179 @@
+// ASIN import utility functions - read supplier lists (CSV, TSV, XLSX, TXT)
+// locally and pick out the ASIN column
+
+import ExcelJS from 'exceljs';
+import { isValidAsin, normalizeAsin } from './asin';
+
+export const ASIN_IMPORT_ACCEPT = '.csv,.tsv,.txt,.xlsx';
+
+export interface ImportedTable {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ColumnSummary {
+  asins: string[]; // valid, unique, in file order
+  valid: number;
+  invalid: number;
+  duplicates: number;
+}
+
+const getExtension = (fileName: string) => {
+  return fileName.split('.').pop()?.toLowerCase() || '';
+};
+
+const getColumnLetter = (index: number): string => {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+};
+
+// Quote-aware delimited text parser (RFC 4180 style)
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Supplier CSVs from European locales often use semicolons
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+};
+
+const readWorkbook = async (file: File): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      values.push(row.getCell(col).text || '');
+    }
+    rows.push(values);
+  });
+  return rows;
+};
+
+const hasHeaderRow = (rows: string[][]): boolean => {
+  if (rows.length < 2) return false;
+  return !rows[0].some(cell => isValidAsin(normalizeAsin(cell)));
+};
+
+/**
+ * Reads an ASIN list file into a table. Plain text files become a single
+ * column with one value per token.
+ */
+export async function readAsinFile(file: File): Promise<ImportedTable> {
+  const extension = getExtension(file.name);
+  let rows: string[][];
+
+  if (extension === 'xlsx') {
+    rows = await readWorkbook(file);
+  } else {
+    const text = (await file.text()).replace(/^\uFEFF/, '');
+    if (extension === 'txt') {
+      rows = text.split(/[\s,;]+/).filter(token => token.length > 0).map(token => [token]);
+    } else {
+      rows = parseDelimited(text, extension === 'tsv' ? '\t' : detectDelimiter(text));
+    }
+  }
+
+  rows = rows.filter(row => row.some(cell => cell.trim().length > 0));
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  let headers: string[];
+  if (hasHeaderRow(rows)) {
+    const headerRow = rows.shift()!;
+    headers = Array.from({ length: columnCount }, (_, i) => headerRow[i]?.trim() || getColumnLetter(i));
+  } else {
+    headers = Array.from({ length: columnCount }, (_, i) => getColumnLetter(i));
+  }
+
+  return { fileName: file.name, headers, rows };
+}
+
+export function summarizeColumn(table: ImportedTable, columnIndex: number): ColumnSummary {
+  const seen = new Set<string>();
+  const summary: ColumnSummary = { asins: [], valid: 0, invalid: 0, duplicates: 0 };
+
+  table.rows.forEach(row => {
+    const value = normalizeAsin(row[columnIndex] || '');
+    if (!value) return;
+
+    if (!isValidAsin(value)) {
+      summary.invalid++;
+    } else if (seen.has(value)) {
+      summary.duplicates++;
+    } else {
+      seen.add(value);
+      summary.valid++;
+      summary.asins.push(value);
+    }
+  });
+
+  return summary;
+}
+
+// Default to the column that holds the most valid ASINs
+export function detectAsinColumn(table: ImportedTable): number {
+  let bestIndex = 0;
+  let bestCount = -1;
+  table.headers.forEach((_, index) => {
+    const { valid } = summarizeColumn(table, index);
+    if (valid > bestCount) {
+      bestIndex = index;
+      bestCount = valid;
+    }
+  });
+  return bestIndex;
+}
@@ -0,0 +1,7 @@
+// Background messaging utility functions
+
+import { BackgroundMessage, BackgroundResponse } from '../types/messages';
+
+export const sendToBackground = (message: BackgroundMessage): Promise<BackgroundResponse> => {
+  return chrome.runtime.sendMessage(message);
+};
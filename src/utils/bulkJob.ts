@@ -0,0 +1,179 @@
+// Bulk job utility functions - submit a bulk check job and stream its results
+// over SSE, reconnecting on drops and falling back to polling the job status
+
+import { CheckResult } from '../types/check';
+
+declare const apiClient: any;
+
+const MAX_STREAM_RECONNECTS = 3;
+const RECONNECT_BASE_DELAY = 1000;
+const POLL_INTERVAL = 3000;
+const MAX_POLL_FAILURES = 5;
+const PAUSE_CHECK_INTERVAL = 200;
+const FINISHED_JOB_STATUSES = ['completed', 'complete', 'done', 'failed', 'cancelled'];
+
+type StreamOutcome = 'complete' | 'dropped' | 'cancelled' | 'paused';
+
+export interface BulkJobHandlers {
+  onResults: (results: CheckResult[]) => void;
+  onUsage?: (usage: any) => void;
+  onJobCreated?: (jobId: string) => void;
+  isCancelled: () => boolean;
+  isPaused?: () => boolean; // the stream is closed until this turns false again
+}
+
+// A job created before the worker was stopped, and the ASINs it already returned
+export interface BulkJobResume {
+  jobId: string;
+  receivedAsins: string[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// SSE events and job status responses carry results either one at a time or as a list
+const extractResults = (data: any): CheckResult[] => {
+  if (!data) return [];
+  if (Array.isArray(data.results)) return data.results;
+  if (data.result) return [data.result];
+  if (data.job && Array.isArray(data.job.results)) return data.job.results;
+  return [];
+};
+
+const isJobFinished = (data: any): boolean => {
+  const status = data?.status || data?.job?.status || data?.type;
+  return typeof status === 'string' && FINISHED_JOB_STATUSES.includes(status.toLowerCase());
+};
+
+// Holds a paused run; the server keeps the job going and polling catches up after
+const waitWhilePaused = async (handlers: BulkJobHandlers) => {
+  while (handlers.isPaused?.() && !handlers.isCancelled()) {
+    await sleep(PAUSE_CHECK_INTERVAL);
+  }
+};
+
+const streamOnce = (
+  jobId: string,
+  accept: (data: any) => void,
+  handlers: BulkJobHandlers
+): Promise<StreamOutcome> => {
+  return new Promise(resolve => {
+    let stream: { close: () => void } | null = null;
+    let settled = false;
+
+    const finish = (outcome: StreamOutcome) => {
+      if (settled) return;
+      settled = true;
+      clearInterval(cancelWatch);
+      stream?.close();
+      resolve(outcome);
+    };
+
+    const cancelWatch = setInterval(() => {
+      if (handlers.isCancelled()) {
+        finish('cancelled');
+      } else if (handlers.isPaused?.()) {
+        finish('paused');
+      }
+    }, PAUSE_CHECK_INTERVAL);
+
+    apiClient.createSSEStream(
+      jobId,
+      (data: any) => {
+        accept(data);
+        if (isJobFinished(data)) {
+          finish('complete');
+        }
+      },
+      // Parse errors affect a single message; the stream ending is reported separately
+      () => {},
+      () => finish('dropped')
+    ).then((created: { close: () => void }) => {
+      stream = created;
+      if (settled) {
+        stream.close();
+      }
+    }).catch((error: any) => {
+      console.error('Failed to open bulk job stream:', error);
+      finish('dropped');
+    });
+  });
+};
+
+/**
+ * Runs a bulk check job to completion, or follows an existing one when given
+ * `resume`. Resolves with false when the job could not be created, so the
+ * caller can fall back to regular batch checks.
+ */
+export async function runBulkJob(
+  asins: string[],
+  handlers: BulkJobHandlers,
+  resume?: BulkJobResume
+): Promise<boolean> {
+  let jobId: string;
+  if (resume) {
+    jobId = resume.jobId;
+    console.log(`📡 Following bulk job ${jobId} again (${resume.receivedAsins.length}/${asins.length} results)`);
+  } else {
+    const job = await apiClient.createBulkJob(asins);
+    if (!job.success || !job.jobId) {
+      console.warn('⚠️ Bulk job could not be created:', job.error);
+      return false;
+    }
+    jobId = job.jobId;
+    console.log(`📡 Bulk job ${jobId} created for ${asins.length} ASINs`);
+    handlers.onJobCreated?.(jobId);
+  }
+
+  // Reconnects and polling may repeat results we already have
+  const received = new Set<string>(resume?.receivedAsins);
+  const accept = (data: any) => {
+    const fresh = extractResults(data).filter(result => result?.asin && !received.has(result.asin));
+    fresh.forEach(result => received.add(result.asin));
+    if (fresh.length > 0) {
+      handlers.onResults(fresh);
+    }
+    if (data?.usage && handlers.onUsage) {
+      handlers.onUsage(data.usage);
+    }
+  };
+  const isDone = () => received.size >= asins.length;
+
+  // ✅ SSE STREAM: reconnect with backoff after a dropped connection
+  let attempt = 0;
+  while (!handlers.isCancelled() && !isDone()) {
+    const outcome = await streamOnce(jobId, accept, handlers);
+    if (outcome === 'cancelled') return true;
+    if (outcome === 'complete') break;
+    if (outcome === 'paused') {
+      await waitWhilePaused(handlers);
+      continue;
+    }
+
+    attempt++;
+    if (attempt > MAX_STREAM_RECONNECTS) {
+      console.warn(`⚠️ Bulk job stream dropped ${attempt} times, falling back to polling`);
+      break;
+    }
+    console.log(`🔁 Bulk job stream dropped, reconnecting (${attempt}/${MAX_STREAM_RECONNECTS})...`);
+    await sleep(RECONNECT_BASE_DELAY * attempt);
+  }
+
+  // ✅ POLLING FALLBACK: also fills any results the stream missed
+  let pollFailures = 0;
+  while (!handlers.isCancelled() && !isDone()) {
+    await waitWhilePaused(handlers);
+    if (handlers.isCancelled()) break;
+    const status = await apiClient.getJobStatus(jobId);
+    if (status.success) {
+      pollFailures = 0;
+      accept(status);
+      if (isJobFinished(status)) break;
+    } else if (++pollFailures >= MAX_POLL_FAILURES) {
+      console.error(`❌ Giving up on bulk job ${jobId} after ${pollFailures} failed status checks`);
+      break;
+    }
+    await sleep(POLL_INTERVAL);
+  }
+
+  return true;
+}
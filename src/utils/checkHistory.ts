@@ -0,0 +1,127 @@
+// Check history store - every finished run is kept in IndexedDB so it can be
+// browsed, reopened and exported again (shared by the side panel and the worker)
+
+import { CheckHistoryEntry, CheckHistorySummary, CheckResult } from '../types/check';
+import { getHistoryRetentionDays } from './checkPreferences';
+
+const DB_NAME = 'fastchecker';
+const DB_VERSION = 1;
+const RUN_STORE = 'check_runs';
+const DAY = 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUN_STORE)) {
+          const store = db.createObjectStore(RUN_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const getStore = async (mode: IDBTransactionMode) => {
+  const db = await openDatabase();
+  return db.transaction(RUN_STORE, mode).objectStore(RUN_STORE);
+};
+
+export const toHistorySummary = (entry: CheckHistoryEntry): CheckHistorySummary => {
+  const { results, ...summary } = entry;
+  return {
+    ...summary,
+    resultCount: results.length,
+    sellableCount: results.filter(result => result.sellable).length
+  };
+};
+
+/**
+ * Deletes runs older than the retention setting. A retention of 0 keeps
+ * everything.
+ */
+export const pruneHistory = async (): Promise<void> => {
+  const retentionDays = await getHistoryRetentionDays();
+  if (retentionDays <= 0) return;
+
+  const store = await getStore('readwrite');
+  const range = IDBKeyRange.upperBound(Date.now() - retentionDays * DAY);
+  const keys = await requestToPromise(store.index('createdAt').getAllKeys(range));
+  await Promise.all(keys.map(key => requestToPromise(store.delete(key))));
+};
+
+export const saveHistoryEntry = async (entry: CheckHistoryEntry): Promise<void> => {
+  const store = await getStore('readwrite');
+  await requestToPromise(store.put(entry));
+  await pruneHistory();
+};
+
+// Newest first
+export const getHistorySummaries = async (): Promise<CheckHistorySummary[]> => {
+  const store = await getStore('readonly');
+  const entries: CheckHistoryEntry[] = await requestToPromise(store.getAll());
+  return entries
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(toHistorySummary);
+};
+
+export const getHistoryEntry = async (id: string): Promise<CheckHistoryEntry | null> => {
+  const store = await getStore('readonly');
+  const entry: CheckHistoryEntry | undefined = await requestToPromise(store.get(id));
+  return entry || null;
+};
+
+/**
+ * Newest non-error result per ASIN in runs started since the given time.
+ * With a marketplace, results checked in other marketplaces don't count.
+ */
+export const getRecentResults = async (since: number, marketplace?: string): Promise<Map<string, CheckResult>> => {
+  const store = await getStore('readonly');
+  const entries: CheckHistoryEntry[] = await requestToPromise(
+    store.index('createdAt').getAll(IDBKeyRange.lowerBound(since))
+  );
+
+  const results = new Map<string, CheckResult>();
+  entries
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .forEach(entry => {
+      entry.results.forEach(result => {
+        const resultMarketplace = result.marketplace || entry.marketplace;
+        if (result.status === 'error' || results.has(result.asin)) return;
+        if (marketplace && resultMarketplace && resultMarketplace !== marketplace) return;
+        results.set(result.asin, { ...result, marketplace: resultMarketplace });
+      });
+    });
+  return results;
+};
+
+export const getRecentlyCheckedAsins = async (since: number, marketplace?: string): Promise<Set<string>> => {
+  return new Set((await getRecentResults(since, marketplace)).keys());
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  const store = await getStore('readwrite');
+  await requestToPromise(store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const store = await getStore('readwrite');
+  await requestToPromise(store.clear());
+};
@@ -0,0 +1,212 @@
+// Check page preference helpers (stored locally, per browser)
+
+import { ItemCondition, ResultTableColumn, ResultView } from '../types/check';
+
+export const DEFAULT_BULK_CHECK_THRESHOLD = 100;
+export const DEFAULT_HISTORY_RETENTION_DAYS = 30;
+export const HISTORY_RETENTION_OPTIONS = [7, 30, 90, 365, 0]; // 0 keeps runs forever
+
+export const getBulkCheckThreshold = async (): Promise<number> => {
+  try {
+    const result = await chrome.storage.local.get(['bulkCheckThreshold']);
+    const threshold = Number(result.bulkCheckThreshold);
+    return threshold > 0 ? threshold : DEFAULT_BULK_CHECK_THRESHOLD;
+  } catch (error) {
+    console.error('Failed to get bulk check threshold from storage:', error);
+    return DEFAULT_BULK_CHECK_THRESHOLD;
+  }
+};
+
+export const saveBulkCheckThreshold = async (threshold: number): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ bulkCheckThreshold: threshold });
+  } catch (error) {
+    console.error('Failed to save bulk check threshold to storage:', error);
+  }
+};
+
+export const getHistoryRetentionDays = async (): Promise<number> => {
+  try {
+    const result = await chrome.storage.local.get(['historyRetentionDays']);
+    const days = Number(result.historyRetentionDays);
+    return HISTORY_RETENTION_OPTIONS.includes(days) ? days : DEFAULT_HISTORY_RETENTION_DAYS;
+  } catch (error) {
+    console.error('Failed to get history retention from storage:', error);
+    return DEFAULT_HISTORY_RETENTION_DAYS;
+  }
+};
+
+export const saveHistoryRetentionDays = async (days: number): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ historyRetentionDays: days });
+  } catch (error) {
+    console.error('Failed to save history retention to storage:', error);
+  }
+};
+
+// One card every 600ms while a run is in progress; off shows results as they arrive
+export const getResultDisplayThrottle = async (): Promise<boolean> => {
+  try {
+    const result = await chrome.storage.local.get(['resultDisplayThrottle']);
+    return result.resultDisplayThrottle !== false;
+  } catch (error) {
+    console.error('Failed to get result display throttle from storage:', error);
+    return true;
+  }
+};
+
+export const saveResultDisplayThrottle = async (enabled: boolean): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ resultDisplayThrottle: enabled });
+  } catch (error) {
+    console.error('Failed to save result display throttle to storage:', error);
+  }
+};
+
+// Quota preview before runs that fit the remaining checks; runs that don't always ask
+export const getQuotaPreview = async (): Promise<boolean> => {
+  try {
+    const result = await chrome.storage.local.get(['quotaPreview']);
+    return result.quotaPreview !== false;
+  } catch (error) {
+    console.error('Failed to get quota preview setting from storage:', error);
+    return true;
+  }
+};
+
+export const saveQuotaPreview = async (enabled: boolean): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ quotaPreview: enabled });
+  } catch (error) {
+    console.error('Failed to save quota preview setting to storage:', error);
+  }
+};
+
+export const getResultView = async (): Promise<ResultView> => {
+  try {
+    const result = await chrome.storage.local.get(['resultView']);
+    return result.resultView === 'table' ? 'table' : 'cards';
+  } catch (error) {
+    console.error('Failed to get result view from storage:', error);
+    return 'cards';
+  }
+};
+
+export const saveResultView = async (view: ResultView): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ resultView: view });
+  } catch (error) {
+    console.error('Failed to save result view to storage:', error);
+  }
+};
+
+export const getResultTableColumnWidths = async (): Promise<Partial<Record<ResultTableColumn, number>>> => {
+  try {
+    const result = await chrome.storage.local.get(['resultTableColumnWidths']);
+    return result.resultTableColumnWidths || {};
+  } catch (error) {
+    console.error('Failed to get table column widths from storage:', error);
+    return {};
+  }
+};
+
+export const saveResultTableColumnWidths = async (widths: Partial<Record<ResultTableColumn, number>>): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ resultTableColumnWidths: widths });
+  } catch (error) {
+    console.error('Failed to save table column widths to storage:', error);
+  }
+};
+
+export const getCheckConditions = async (): Promise<ItemCondition[]> => {
+  try {
+    const result = await chrome.storage.local.get(['checkConditions']);
+    return Array.isArray(result.checkConditions) ? result.checkConditions : [];
+  } catch (error) {
+    console.error('Failed to get check conditions from storage:', error);
+    return [];
+  }
+};
+
+export const saveCheckConditions = async (conditions: ItemCondition[]): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ checkConditions: conditions });
+  } catch (error) {
+    console.error('Failed to save check conditions to storage:', error);
+  }
+};
+
+// Marketplaces picked for multi-marketplace runs; empty uses the Settings marketplace
+export const getCheckMarketplaces = async (): Promise<string[]> => {
+  try {
+    const result = await chrome.storage.local.get(['checkMarketplaces']);
+    return Array.isArray(result.checkMarketplaces) ? result.checkMarketplaces : [];
+  } catch (error) {
+    console.error('Failed to get check marketplaces from storage:', error);
+    return [];
+  }
+};
+
+export const saveCheckMarketplaces = async (marketplaces: string[]): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ checkMarketplaces: marketplaces });
+  } catch (error) {
+    console.error('Failed to save check marketplaces to storage:', error);
+  }
+};
+
+// Prefixes CSV exports with a UTF-8 BOM so Excel shows Turkish characters
+export const getCsvUtf8Bom = async (): Promise<boolean> => {
+  try {
+    const result = await chrome.storage.local.get(['csvUtf8Bom']);
+    return result.csvUtf8Bom === true;
+  } catch (error) {
+    console.error('Failed to get CSV UTF-8 BOM setting from storage:', error);
+    return false;
+  }
+};
+
+export const saveCsvUtf8Bom = async (enabled: boolean): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ csvUtf8Bom: enabled });
+  } catch (error) {
+    console.error('Failed to save CSV UTF-8 BOM setting to storage:', error);
+  }
+};
+
+export const getXlsxIncludeImages = async (): Promise<boolean> => {
+  try {
+    const result = await chrome.storage.local.get(['xlsxIncludeImages']);
+    return result.xlsxIncludeImages === true;
+  } catch (error) {
+    console.error('Failed to get XLSX image setting from storage:', error);
+    return false;
+  }
+};
+
+export const saveXlsxIncludeImages = async (enabled: boolean): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ xlsxIncludeImages: enabled });
+  } catch (error) {
+    console.error('Failed to save XLSX image setting to storage:', error);
+  }
+};
+
+// Eligibility badges on Amazon pages; read by the content scripts
+export const getPageBadgesEnabled = async (): Promise<boolean> => {
+  try {
+    const result = await chrome.storage.local.get(['pageBadges']);
+    return result.pageBadges !== false;
+  } catch (error) {
+    console.error('Failed to get page badge setting from storage:', error);
+    return true;
+  }
+};
+
+export const savePageBadgesEnabled = async (enabled: boolean): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ pageBadges: enabled });
+  } catch (error) {
+    console.error('Failed to save page badge setting to storage:', error);
+  }
+};
@@ -0,0 +1,41 @@
+// Item condition helpers - per-condition eligibility of a check result
+
+import { CheckResult, ItemCondition } from '../types/check';
+
+export const ITEM_CONDITIONS: ItemCondition[] = ['new', 'used', 'collectible', 'refurbished'];
+
+export const CONDITION_LABEL_KEYS: Record<ItemCondition, string> = {
+  new: 'conditionNew',
+  used: 'conditionUsed',
+  collectible: 'conditionCollectible',
+  refurbished: 'conditionRefurbished'
+};
+
+/**
+ * Returns the result as it stands for one condition, so the usual status
+ * helpers can render it. Uses the per-condition answer when the backend sent
+ * one, otherwise the restrictions listed for that condition (none listed
+ * means eligible). Null when nothing is known about the condition.
+ */
+export const getConditionResult = (result: CheckResult, condition: ItemCondition): CheckResult | null => {
+  const eligibility = result.conditions?.[condition];
+  if (eligibility) {
+    return { ...result, sellable: eligibility.sellable, detailedStatus: eligibility.detailedStatus };
+  }
+
+  if (!result.restrictions || result.status === 'error') return null;
+
+  // Restrictions without a condition type apply to every condition
+  const restrictions = result.restrictions.filter(restriction => {
+    const applies = !restriction.conditionType || restriction.conditionType.startsWith(`${condition}_`);
+    return applies && (restriction.reasons || []).length > 0;
+  });
+  if (restrictions.length === 0) {
+    return { ...result, sellable: true, detailedStatus: 'Eligible' };
+  }
+
+  const needsApproval = restrictions.some(restriction => {
+    return (restriction.reasons || []).some(reason => reason.reasonCode === 'APPROVAL_REQUIRED');
+  });
+  return { ...result, sellable: false, detailedStatus: needsApproval ? 'APPROVAL REQUIRED' : 'Restricted' };
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { CheckResult } from '../types/check';
+import { ExportTemplate } from '../types/exportTemplate';
+import { buildTemplateCsv, formatExportDate, getDefaultColumnHeader, getTemplateStatus } from './exportTemplates';
+import { UTF8_BOM } from './resultExport';
+
+const CHECKED_AT = Date.UTC(2024, 2, 5, 14, 30);
+
+const results: CheckResult[] = [
+  {
+    asin: 'B000000001',
+    status: 'success',
+    detailedStatus: 'Eligible',
+    sellable: true,
+    title: 'Lamp; "large"',
+    brand: 'Acme',
+    marketplace: 'US',
+    checkedAt: CHECKED_AT,
+    conditions: { new: { sellable: true, detailedStatus: 'Eligible' }, used: { sellable: false, detailedStatus: 'Restricted' } }
+  },
+  { asin: 'B000000002', status: 'error', error: 'Timeout', marketplace: 'US', checkedAt: CHECKED_AT }
+];
+
+const template = (overrides: Partial<ExportTemplate>): ExportTemplate => ({
+  id: 'template',
+  name: 'Template',
+  columns: [{ column: 'asin' }],
+  delimiter: ',',
+  dateFormat: 'isoDate',
+  statusFormat: 'text',
+  createdAt: 0,
+  ...overrides
+});
+
+describe('buildTemplateCsv', () => {
+  it('writes the picked columns in order, with renamed headers', () => {
+    const csv = buildTemplateCsv(template({
+      columns: [{ column: 'status', header: 'Eligibility' }, { column: 'asin' }, { column: 'checkedAt' }]
+    }), { results, inputOrder: ['B000000001'], language: 'en' });
+
+    expect(csv.split('\n')).toEqual(['Eligibility,ASIN,CHECK DATE', 'SELLABLE,B000000001,2024-03-05']);
+  });
+
+  it('quotes only fields holding the delimiter, quotes or line breaks', () => {
+    const csv = buildTemplateCsv(template({
+      columns: [{ column: 'asin' }, { column: 'title' }, { column: 'brand' }],
+      delimiter: ';'
+    }), { results, inputOrder: ['B000000001'], language: 'en' });
+
+    expect(csv.split('\n')[1]).toBe('B000000001;"Lamp; ""large""";Acme');
+  });
+
+  it('expands the conditions column into one column per condition', () => {
+    const csv = buildTemplateCsv(template({
+      columns: [{ column: 'asin' }, { column: 'conditions', header: 'Cond' }],
+      statusFormat: 'code'
+    }), { results, inputOrder: ['B000000001', 'B000000003'], language: 'en', conditions: ['new', 'used'] });
+
+    expect(csv.split('\n')).toEqual(['ASIN,Cond NEW,Cond USED', 'B000000001,Eligible,Restricted', 'B000000003,N/A,N/A']);
+  });
+
+  it('writes source codes and marketplace domains', () => {
+    const csv = buildTemplateCsv(template({
+      columns: [{ column: 'asin' }, { column: 'identifier' }, { column: 'marketplace' }],
+      delimiter: '\t'
+    }), {
+      results,
+      inputOrder: ['B000000001'],
+      language: 'en',
+      identifiers: { B000000001: ['036000291452', '4006381333931'] }
+    });
+
+    expect(csv.split('\n')[1]).toBe('B000000001\t036000291452, 4006381333931\tamazon.com');
+  });
+
+  it('writes one row per ASIN and marketplace for multi-marketplace runs', () => {
+    const csv = buildTemplateCsv(template({
+      columns: [{ column: 'asin' }, { column: 'marketplace' }, { column: 'status' }],
+      statusFormat: 'sellable'
+    }), {
+      results: [results[0], { ...results[0], marketplace: 'DE', sellable: false, detailedStatus: 'Restricted' }],
+      inputOrder: ['B000000001', 'B000000001'],
+      language: 'en',
+      marketplaces: ['US', 'DE']
+    });
+
+    expect(csv.split('\n').slice(1)).toEqual(['B000000001,amazon.com,true', 'B000000001,amazon.de,false']);
+  });
+
+  it('keeps Turkish headers behind a BOM and makes them ASCII without one', () => {
+    const options = { results, inputOrder: ['B000000001'], language: 'tr' as const };
+    const columns = [{ column: 'title' as const }];
+    expect(buildTemplateCsv(template({ columns }), options).split('\n')[0]).toBe('BASLIK');
+    expect(buildTemplateCsv(template({ columns }), { ...options, utf8Bom: true }).split('\n')[0]).toBe(`${UTF8_BOM}BAŞLIK`);
+  });
+});
+
+describe('getTemplateStatus', () => {
+  it('formats statuses as text, codes or a sellable flag', () => {
+    expect(getTemplateStatus(results[0], 'text', 'en')).toBe('SELLABLE');
+    expect(getTemplateStatus(results[0], 'code', 'en')).toBe('Eligible');
+    expect(getTemplateStatus(results[0], 'sellable', 'en')).toBe('true');
+    expect(getTemplateStatus(results[1], 'code', 'en')).toBe('ERROR');
+    expect(getTemplateStatus(results[1], 'sellable', 'en')).toBe('');
+  });
+});
+
+describe('formatExportDate', () => {
+  it('writes ISO dates, ISO date-times and timestamps', () => {
+    expect(formatExportDate(CHECKED_AT, 'isoDate', 'en')).toBe('2024-03-05');
+    expect(formatExportDate(CHECKED_AT, 'isoDateTime', 'en')).toBe('2024-03-05T14:30:00.000Z');
+    expect(formatExportDate(CHECKED_AT, 'timestamp', 'en')).toBe(String(CHECKED_AT));
+  });
+});
+
+describe('getDefaultColumnHeader', () => {
+  it('uses the same headers as the default CSV export', () => {
+    expect(getDefaultColumnHeader('checkedAt', 'en')).toBe('CHECK DATE');
+    expect(getDefaultColumnHeader('marketplace', 'tr')).toBe('PAZARYERİ');
+  });
+});
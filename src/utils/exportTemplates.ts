@@ -0,0 +1,278 @@
+// Export template helpers - saved CSV layouts (columns, headers, delimiter,
+// date format, status vocabulary), stored in chrome.storage.local
+
+import { Language } from '../contexts/LanguageContext';
+import { CheckResult } from '../types/check';
+import {
+  ExportColumn,
+  ExportDateFormat,
+  ExportDelimiter,
+  ExportStatusFormat,
+  ExportTemplate
+} from '../types/exportTemplate';
+import { getConditionResult } from './conditions';
+import { formatSourceCodes } from './identifier';
+import { getMarketplaceDomain } from './marketplaces';
+import {
+  ExportRow,
+  ResultsCsvOptions,
+  UTF8_BOM,
+  getCSVStatus,
+  getCheckDateHeader,
+  getConditionHeader,
+  getExportRows,
+  getImageHeader,
+  toAscii
+} from './resultExport';
+import { PLACEHOLDER_IMAGE, getProductBrand, getProductImage, getProductTitle } from './resultStatus';
+
+const EXPORT_TEMPLATES_STORAGE_KEY = 'exportTemplates';
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  'asin',
+  'identifier',
+  'title',
+  'brand',
+  'status',
+  'detailedStatus',
+  'conditions',
+  'marketplace',
+  'image',
+  'checkedAt'
+];
+
+export const EXPORT_COLUMN_LABEL_KEYS: Record<ExportColumn, string> = {
+  asin: 'columnAsin',
+  identifier: 'columnIdentifier',
+  title: 'columnTitle',
+  brand: 'columnBrand',
+  status: 'columnStatus',
+  detailedStatus: 'columnDetailedStatus',
+  conditions: 'columnConditions',
+  marketplace: 'columnMarketplace',
+  image: 'columnImage',
+  checkedAt: 'columnCheckedAt'
+};
+
+export const EXPORT_DELIMITERS: ExportDelimiter[] = [',', ';', '\t'];
+
+export const EXPORT_DELIMITER_LABEL_KEYS: Record<ExportDelimiter, string> = {
+  ',': 'delimiterComma',
+  ';': 'delimiterSemicolon',
+  '\t': 'delimiterTab'
+};
+
+export const EXPORT_DATE_FORMATS: ExportDateFormat[] = ['locale', 'isoDate', 'isoDateTime', 'timestamp'];
+
+export const EXPORT_DATE_FORMAT_LABEL_KEYS: Record<ExportDateFormat, string> = {
+  locale: 'dateFormatLocale',
+  isoDate: 'dateFormatIsoDate',
+  isoDateTime: 'dateFormatIsoDateTime',
+  timestamp: 'dateFormatTimestamp'
+};
+
+export const EXPORT_STATUS_FORMATS: ExportStatusFormat[] = ['text', 'code', 'sellable'];
+
+export const EXPORT_STATUS_FORMAT_LABEL_KEYS: Record<ExportStatusFormat, string> = {
+  text: 'statusFormatText',
+  code: 'statusFormatCode',
+  sellable: 'statusFormatSellable'
+};
+
+const DEFAULT_HEADERS: Record<Exclude<ExportColumn, 'conditions'>, { en: string; tr: string }> = {
+  asin: { en: 'ASIN', tr: 'ASIN' },
+  identifier: { en: 'UPC/EAN', tr: 'UPC/EAN' },
+  title: { en: 'TITLE', tr: 'BAŞLIK' },
+  brand: { en: 'BRAND', tr: 'MARKA' },
+  status: { en: 'STATUS', tr: 'DURUM' },
+  detailedStatus: { en: 'DETAILED STATUS', tr: 'DETAYLI DURUM' },
+  marketplace: { en: 'MARKETPLACE', tr: 'PAZARYERİ' },
+  image: { en: 'IMAGE', tr: 'GÖRSEL' },
+  checkedAt: { en: 'CHECK DATE', tr: 'KONTROL TARİHİ' }
+};
+
+export interface TemplateCsvOptions extends ResultsCsvOptions {
+  marketplace?: string; // used for results saved before they were stamped with one
+  marketplaces?: string[]; // multi-marketplace runs export one row per ASIN and marketplace
+}
+
+export const getExportTemplates = async (): Promise<ExportTemplate[]> => {
+  try {
+    const result = await chrome.storage.local.get([EXPORT_TEMPLATES_STORAGE_KEY]);
+    return result[EXPORT_TEMPLATES_STORAGE_KEY] || [];
+  } catch (error) {
+    console.error('Failed to get export templates from storage:', error);
+    return [];
+  }
+};
+
+// Adds the template, or replaces the saved one with the same id
+export const saveExportTemplate = async (template: ExportTemplate): Promise<void> => {
+  const templates = await getExportTemplates();
+  const index = templates.findIndex(item => item.id === template.id);
+  if (index === -1) {
+    templates.push(template);
+  } else {
+    templates[index] = template;
+  }
+  await chrome.storage.local.set({ [EXPORT_TEMPLATES_STORAGE_KEY]: templates });
+};
+
+export const deleteExportTemplate = async (id: string): Promise<void> => {
+  const templates = await getExportTemplates();
+  await chrome.storage.local.set({
+    [EXPORT_TEMPLATES_STORAGE_KEY]: templates.filter(template => template.id !== id)
+  });
+};
+
+// Starts from the columns of the default CSV export
+export const createExportTemplate = (name: string): ExportTemplate => ({
+  id: `${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+  name,
+  columns: [
+    { column: 'asin' },
+    { column: 'title' },
+    { column: 'brand' },
+    { column: 'status' },
+    { column: 'checkedAt' }
+  ],
+  delimiter: ',',
+  dateFormat: 'locale',
+  statusFormat: 'text',
+  createdAt: Date.now()
+});
+
+export const getDefaultColumnHeader = (column: ExportColumn, language: Language): string => {
+  if (column === 'conditions') {
+    return language === 'tr' ? 'DURUMLAR' : 'CONDITIONS';
+  }
+  if (column === 'image') return getImageHeader(language);
+  if (column === 'checkedAt') return getCheckDateHeader(language);
+  return DEFAULT_HEADERS[column][language === 'tr' ? 'tr' : 'en'];
+};
+
+export const getTemplateStatus = (
+  result: CheckResult,
+  format: ExportStatusFormat,
+  language: Language,
+  asciiOnly = true
+): string => {
+  switch (format) {
+    case 'code':
+      if (result.status === 'error') return 'ERROR';
+      if (result.detailedStatus) return result.detailedStatus;
+      if (result.sellable === true) return 'Eligible';
+      if (result.sellable === false) return 'Ineligible';
+      return 'UNKNOWN';
+    case 'sellable':
+      return result.status === 'error' ? '' : String(result.sellable === true);
+    default:
+      return getCSVStatus(result, language, asciiOnly);
+  }
+};
+
+export const formatExportDate = (timestamp: number, format: ExportDateFormat, language: Language): string => {
+  const date = new Date(timestamp);
+  switch (format) {
+    case 'isoDate':
+      return date.toISOString().split('T')[0];
+    case 'isoDateTime':
+      return date.toISOString();
+    case 'timestamp':
+      return String(timestamp);
+    default:
+      return date.toLocaleDateString(language === 'tr' ? 'tr-TR' : 'en-US');
+  }
+};
+
+const escapeField = (value: string, delimiter: ExportDelimiter): string => {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+// Multi-marketplace runs hold one result per ASIN and marketplace
+const getTemplateRows = (options: TemplateCsvOptions): ExportRow[] => {
+  const { results, inputOrder, identifiers = {}, marketplaces = [] } = options;
+  if (marketplaces.length <= 1) {
+    return getExportRows(results, inputOrder, identifiers);
+  }
+
+  const resultsMap = new Map<string, CheckResult>();
+  results.forEach(result => {
+    resultsMap.set(`${result.asin}:${result.marketplace}`, result);
+  });
+
+  return [...new Set(inputOrder)].flatMap(asin => marketplaces.map(marketplace => {
+    const result = resultsMap.get(`${asin}:${marketplace}`) || null;
+    return { asin, identifier: result?.identifier || formatSourceCodes(identifiers, asin), result };
+  }));
+};
+
+export const buildTemplateCsv = (template: ExportTemplate, options: TemplateCsvOptions): string => {
+  const { language, conditions = [], marketplace, marketplaces = [], utf8Bom = false } = options;
+  const { delimiter, dateFormat, statusFormat } = template;
+  // Without a BOM, Turkish headers and statuses are ASCII only
+  const text = (value: string) => (utf8Bom ? value : toAscii(value));
+  const now = Date.now();
+
+  const headers = template.columns.flatMap(({ column, header }) => {
+    if (column === 'conditions') {
+      return conditions.map(condition => {
+        const conditionHeader = getConditionHeader(condition, language);
+        return header ? `${header} ${conditionHeader}` : conditionHeader;
+      });
+    }
+    return [header || getDefaultColumnHeader(column, language)];
+  });
+
+  const getValues = (column: ExportColumn, { asin, identifier, result }: ExportRow, rowMarketplace?: string): string[] => {
+    switch (column) {
+      case 'asin':
+        return [asin];
+      case 'identifier':
+        return [identifier];
+      case 'title':
+        return [result ? getProductTitle(result) : 'N/A'];
+      case 'brand':
+        return [result ? getProductBrand(result) : 'N/A'];
+      case 'status':
+        if (!result) return [statusFormat === 'sellable' ? '' : 'No Result'];
+        return [text(getTemplateStatus(result, statusFormat, language, !utf8Bom))];
+      case 'detailedStatus':
+        return [result?.detailedStatus || ''];
+      case 'conditions':
+        return conditions.map(condition => {
+          const conditionResult = result && getConditionResult(result, condition);
+          if (!conditionResult) return statusFormat === 'sellable' ? '' : 'N/A';
+          return text(getTemplateStatus(conditionResult, statusFormat, language, !utf8Bom));
+        });
+      case 'marketplace': {
+        const code = result?.marketplace || rowMarketplace;
+        return [code ? getMarketplaceDomain(code) : ''];
+      }
+      case 'image': {
+        const url = result ? getProductImage(result) : PLACEHOLDER_IMAGE;
+        return [url === PLACEHOLDER_IMAGE ? '' : url];
+      }
+      case 'checkedAt':
+        return [formatExportDate(result?.checkedAt || now, dateFormat, language)];
+    }
+  };
+
+  const rows = getTemplateRows(options);
+  const csv = [
+    headers.map(header => escapeField(text(header), delimiter)).join(delimiter),
+    ...rows.map((row, index) => {
+      // Rows of a multi-marketplace run cycle through the marketplaces in order
+      const rowMarketplace = marketplaces.length > 1 ? marketplaces[index % marketplaces.length] : marketplace;
+      return template.columns
+        .flatMap(({ column }) => getValues(column, row, rowMarketplace))
+        .map(value => escapeField(value, delimiter))
+        .join(delimiter);
+    })
+  ].join('\n');
+
+  return utf8Bom ? `${UTF8_BOM}${csv}` : csv;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { detectIdentifierType, formatSourceCodes, normalizeIdentifier, parseIdentifierInput } from './identifier';
+
+describe('detectIdentifierType', () => {
+  it('accepts UPC-A and EAN-13 codes with a valid check digit', () => {
+    expect(detectIdentifierType('036000291452')).toBe('UPC');
+    expect(detectIdentifierType('4006381333931')).toBe('EAN');
+  });
+
+  it('rejects a wrong GTIN check digit', () => {
+    expect(detectIdentifierType('036000291453')).toBeNull();
+    expect(detectIdentifierType('4006381333932')).toBeNull();
+  });
+
+  it('treats Bookland EAN-13 and ISBN-10 as ISBN', () => {
+    expect(detectIdentifierType('9780306406157')).toBe('ISBN');
+    expect(detectIdentifierType('0306406152')).toBe('ISBN');
+    expect(detectIdentifierType('080442957X')).toBe('ISBN');
+  });
+
+  it('rejects other lengths', () => {
+    expect(detectIdentifierType('12345678')).toBeNull();
+    expect(detectIdentifierType('B08N5WRWNW')).toBeNull();
+  });
+});
+
+describe('normalizeIdentifier', () => {
+  it('drops hyphens and spaces and uppercases an ISBN check X', () => {
+    expect(normalizeIdentifier(' 978-0-306-40615-7 ')).toBe('9780306406157');
+    expect(normalizeIdentifier('0-8044-2957-x')).toBe('080442957X');
+  });
+});
+
+describe('parseIdentifierInput', () => {
+  it('keeps valid codes once, in input order, and rejects the rest', () => {
+    const parsed = parseIdentifierInput('036000291452, 978-0-306-40615-7;036000291452 12345');
+    expect(parsed.identifiers).toEqual([
+      { code: '036000291452', type: 'UPC' },
+      { code: '9780306406157', type: 'ISBN' }
+    ]);
+    expect(parsed.rejected).toEqual(['12345']);
+    expect(parsed.tokens.map(token => token.valid)).toEqual([true, true, true, false]);
+  });
+});
+
+describe('formatSourceCodes', () => {
+  it('joins every code an ASIN was resolved from', () => {
+    expect(formatSourceCodes({ B08N5WRWNW: ['036000291452', '4006381333931'] }, 'B08N5WRWNW'))
+      .toBe('036000291452, 4006381333931');
+  });
+
+  it('reads runs saved with a single code per ASIN', () => {
+    const legacy = { B08N5WRWNW: '036000291452' } as unknown as Record<string, string[]>;
+    expect(formatSourceCodes(legacy, 'B08N5WRWNW')).toBe('036000291452');
+  });
+
+  it('is empty for ASINs without a code', () => {
+    expect(formatSourceCodes(undefined, 'B08N5WRWNW')).toBe('');
+    expect(formatSourceCodes({}, 'B08N5WRWNW')).toBe('');
+  });
+});
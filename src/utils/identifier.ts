@@ -0,0 +1,73 @@
+// Product identifier utility functions - UPC, EAN and ISBN codes from
+// wholesale price lists, resolved to ASINs through the catalog
+
+import { IdentifierType } from '../types/check';
+import { AsinToken, isValidIsbn10 } from './asin';
+
+const TOKEN_PATTERN = /[^\s,;]+/g;
+
+export interface ParsedIdentifier {
+  code: string;
+  type: IdentifierType;
+}
+
+export interface ParsedIdentifierInput {
+  tokens: AsinToken[];
+  identifiers: ParsedIdentifier[]; // valid and unique, in input order
+  rejected: string[];
+}
+
+// GTIN check digit (UPC-A, EAN-13): weights 3/1 from the right, excluding the check digit
+const hasValidGtinCheckDigit = (code: string): boolean => {
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+};
+
+/**
+ * Every code an ASIN was resolved from, as one comma-separated value. Runs
+ * saved before an ASIN could keep several codes hold a single string.
+ */
+export const formatSourceCodes = (identifiers: Record<string, string[]> | undefined, asin: string): string => {
+  const codes: string[] | string | undefined = identifiers?.[asin];
+  return Array.isArray(codes) ? codes.join(', ') : codes || '';
+};
+
+export const normalizeIdentifier = (value: string): string => {
+  return value.trim().replace(/[-\s]/g, '').toUpperCase();
+};
+
+export const detectIdentifierType = (code: string): IdentifierType | null => {
+  if (/^\d{12}$/.test(code) && hasValidGtinCheckDigit(code)) return 'UPC';
+  if (/^\d{13}$/.test(code) && hasValidGtinCheckDigit(code)) {
+    // Bookland EAN-13 codes are ISBN-13
+    return /^97[89]/.test(code) ? 'ISBN' : 'EAN';
+  }
+  if (isValidIsbn10(code)) return 'ISBN';
+  return null;
+};
+
+export const parseIdentifierInput = (text: string): ParsedIdentifierInput => {
+  const tokens: AsinToken[] = [];
+  const identifiers: ParsedIdentifier[] = [];
+  const seen = new Set<string>();
+  const rejected = new Set<string>();
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const raw = match[0];
+    const start = match.index || 0;
+    const code = normalizeIdentifier(raw);
+    const type = detectIdentifierType(code);
+
+    tokens.push({ raw, value: code, valid: !!type, start, end: start + raw.length });
+    if (!type) {
+      rejected.add(raw);
+    } else if (!seen.has(code)) {
+      seen.add(code);
+      identifiers.push({ code, type });
+    }
+  }
+
+  return { tokens, identifiers, rejected: [...rejected] };
+};
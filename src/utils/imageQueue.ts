@@ -0,0 +1,52 @@
+// Image loading queue - product images are fetched a few at a time so a long
+// results list doesn't fire hundreds of requests at once
+
+const MAX_CONCURRENT_LOADS = 4;
+
+const loadedImages = new Set<string>();
+const pending: Array<() => void> = [];
+let activeLoads = 0;
+
+const startNext = () => {
+  while (activeLoads < MAX_CONCURRENT_LOADS && pending.length > 0) {
+    pending.shift()!();
+  }
+};
+
+export const isImageLoaded = (src: string) => loadedImages.has(src);
+
+/**
+ * Queues an image load. Returns a cancel function; a cancelled image that
+ * hasn't started yet never hits the network.
+ */
+export const queueImageLoad = (src: string, onDone: (loaded: boolean) => void): (() => void) => {
+  if (loadedImages.has(src)) {
+    onDone(true);
+    return () => {};
+  }
+
+  let cancelled = false;
+  const start = () => {
+    if (cancelled) return;
+    activeLoads++;
+    const image = new Image();
+    const finish = (loaded: boolean) => {
+      activeLoads--;
+      if (loaded) loadedImages.add(src);
+      if (!cancelled) onDone(loaded);
+      startNext();
+    };
+    image.onload = () => finish(true);
+    image.onerror = () => finish(false);
+    image.src = src;
+  };
+
+  pending.push(start);
+  startNext();
+
+  return () => {
+    cancelled = true;
+    const index = pending.indexOf(start);
+    if (index !== -1) pending.splice(index, 1);
+  };
+};
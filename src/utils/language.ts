@@ -65,7 +65,38 @@ export const getLanguageTexts = (currentLanguage: Language) => {
       'mostPopular': 'Most Popular',
       'perMonth': '/month',
       'unlimited': 'Unlimited',
-      'checks': 'checks'
+      'checks': 'checks',
+
+      // Watchlist notifications (background worker)
+      'watchlistChangesTitle': 'Watchlist "{name}" changed',
+      'watchlistChangesMessage': '{count} ASIN(s) changed status: {changes}',
+      'watchlistPostponedTitle': 'Watchlist "{name}" postponed',
+      'watchlistPostponedMessage': 'Not enough checks left this month ({remaining} left, {needed} needed)',
+
+      // Amazon page badges (content scripts)
+      'badgeChecking': 'Checking…',
+      'badgeSellable': 'Sellable',
+      'badgeApprovalRequired': 'Approval required',
+      'badgeRestricted': 'Restricted',
+      'badgeNotFound': 'Not in marketplace',
+      'badgeFailed': 'Check failed',
+      'badgeNotChecked': 'Not checked',
+      'badgeCheckMore': 'Check {count} more (uses {count} checks)',
+      'badgeCheckNow': 'Check now (uses 1 check)',
+      'badgeOpenDetails': 'Open details in FastChecker',
+
+      // Context menu checks (background worker)
+      'contextMenuCheckSelection': 'Check ASINs in "%s" with FastChecker',
+      'contextMenuCheckLink': 'Check linked ASIN with FastChecker',
+      'contextMenuNoAsins': 'No ASINs or Amazon links found',
+      'contextMenuCheckFailed': 'Check failed',
+      'contextMenuResultsTitle': '{count} ASINs checked',
+      'contextMenuSummary': '✅ {sellable} sellable · ⚠️ {approval} approval · ❌ {restricted} restricted · {failed} failed. Saved to history.',
+      'contextMenuSkipped': '{count} more were not checked; use the side panel for long lists.',
+
+      // Omnibox (fc <ASIN>)
+      'omniboxHint': 'Type an ASIN or Amazon link to check it',
+      'omniboxNoSettings': 'Configure your SP-API settings in FastChecker first'
     },
     tr: {
       // Navigation tabs
@@ -129,13 +160,54 @@ export const getLanguageTexts = (currentLanguage: Language) => {
       'mostPopular': 'En Popüler',
       'perMonth': '/ay',
       'unlimited': 'Sınırsız',
-      'checks': 'kontrol'
+      'checks': 'kontrol',
+
+      // Watchlist notifications (background worker)
+      'watchlistChangesTitle': '"{name}" takip listesi değişti',
+      'watchlistChangesMessage': '{count} ASIN durumu değişti: {changes}',
+      'watchlistPostponedTitle': '"{name}" takip listesi ertelendi',
+      'watchlistPostponedMessage': 'Bu ay yeterli kontrol hakkı yok ({remaining} kaldı, {needed} gerekli)',
+
+      // Amazon page badges (content scripts)
+      'badgeChecking': 'Kontrol ediliyor…',
+      'badgeSellable': 'Satılabilir',
+      'badgeApprovalRequired': 'Onay gerekli',
+      'badgeRestricted': 'Kısıtlı',
+      'badgeNotFound': 'Pazaryerinde yok',
+      'badgeFailed': 'Kontrol başarısız',
+      'badgeNotChecked': 'Kontrol edilmedi',
+      'badgeCheckMore': '{count} ürünü daha kontrol et ({count} kontrol kullanır)',
+      'badgeCheckNow': 'Şimdi kontrol et (1 kontrol kullanır)',
+      'badgeOpenDetails': "FastChecker'da ayrıntıları aç",
+
+      // Context menu checks (background worker)
+      'contextMenuCheckSelection': '"%s" içindeki ASIN\'leri FastChecker ile kontrol et',
+      'contextMenuCheckLink': 'Bağlantıdaki ASIN\'i FastChecker ile kontrol et',
+      'contextMenuNoAsins': 'ASIN veya Amazon bağlantısı bulunamadı',
+      'contextMenuCheckFailed': 'Kontrol başarısız',
+      'contextMenuResultsTitle': '{count} ASIN kontrol edildi',
+      'contextMenuSummary': '✅ {sellable} satılabilir · ⚠️ {approval} onay gerekli · ❌ {restricted} kısıtlı · {failed} başarısız. Geçmişe kaydedildi.',
+      'contextMenuSkipped': '{count} tanesi kontrol edilmedi; uzun listeler için yan paneli kullanın.',
+
+      // Omnibox (fc <ASIN>)
+      'omniboxHint': 'Kontrol etmek için bir ASIN veya Amazon bağlantısı yazın',
+      'omniboxNoSettings': 'Önce FastChecker\'da SP-API ayarlarınızı yapılandırın'
     }
   };
   
   return texts[currentLanguage] || texts.en;
 };
 
+// Language picked in the side panel, for code outside React (worker, content scripts)
+export const getStoredLanguage = async (): Promise<Language> => {
+  try {
+    const result = await chrome.storage.local.get(['language']);
+    return result.language === 'tr' ? 'tr' : 'en';
+  } catch {
+    return 'en';
+  }
+};
+
 export const getText = (key: string, currentLanguage: Language): string => {
   const texts = getLanguageTexts(currentLanguage);
   return texts[key] || key;
@@ -0,0 +1,103 @@
+// Multi-marketplace run helpers - one run checks every ASIN in each selected
+// marketplace; results are shown and exported as an ASIN x marketplace matrix
+
+import { Language } from '../contexts/LanguageContext';
+import { CheckResult } from '../types/check';
+import { getMarketplaceDomain } from './marketplaces';
+import { UTF8_BOM, getCSVStatus, getCheckDateHeader, toAscii } from './resultExport';
+import { getProductBrand, getProductTitle } from './resultStatus';
+
+interface MarketplaceRun {
+  asins?: string[];
+  marketplaces?: string[];
+}
+
+export interface MarketplaceMatrixRow {
+  asin: string;
+  result: CheckResult; // first result that arrived, for title and brand
+  cells: Record<string, CheckResult | undefined>; // marketplace code -> result
+}
+
+export const isMultiMarketplaceRun = (run: MarketplaceRun | null | undefined): boolean => {
+  return (run?.marketplaces?.length || 0) > 1;
+};
+
+// Checks in a run: each ASIN once per marketplace
+export const getRunCheckCount = (run: MarketplaceRun): number => {
+  return (run.asins?.length || 0) * Math.max(1, run.marketplaces?.length || 0);
+};
+
+// Stands in for an ASIN a marketplace returned nothing for
+export const toNotFoundResult = (asin: string, marketplace: string): CheckResult => ({
+  asin,
+  status: 'success',
+  sellable: false,
+  detailedStatus: 'NOT_FOUND_IN_MARKETPLACE',
+  marketplace
+});
+
+/**
+ * Groups results into one row per ASIN, in the order the ASINs first appear
+ * in the given results (so filters and sorting carry over).
+ */
+export const buildMarketplaceMatrix = (results: CheckResult[]): MarketplaceMatrixRow[] => {
+  const rows = new Map<string, MarketplaceMatrixRow>();
+  results.forEach(result => {
+    let row = rows.get(result.asin);
+    if (!row) {
+      row = { asin: result.asin, result, cells: {} };
+      rows.set(result.asin, row);
+    }
+    if (result.marketplace) {
+      row.cells[result.marketplace] = result;
+    }
+  });
+  return [...rows.values()];
+};
+
+// ASIN, TITLE, BRAND and one status column per marketplace
+export const getMatrixHeaders = (marketplaces: string[], language: Language): string[] => {
+  return [
+    ...(language === 'tr' ? ['ASIN', 'BAŞLIK', 'MARKA'] : ['ASIN', 'TITLE', 'BRAND']),
+    ...marketplaces.map(code => getMarketplaceDomain(code).toUpperCase())
+  ];
+};
+
+export const buildMatrixCsv = (
+  results: CheckResult[],
+  inputOrder: string[],
+  marketplaces: string[],
+  language: Language,
+  utf8Bom = false
+): string => {
+  // Without a BOM, Turkish headers and statuses are ASCII only
+  const headers = [
+    ...getMatrixHeaders(marketplaces, language),
+    getCheckDateHeader(language)
+  ].map(header => (utf8Bom ? header : toAscii(header)));
+  const currentDate = new Date().toLocaleDateString(language === 'tr' ? 'tr-TR' : 'en-US');
+
+  const rowsByAsin = new Map(buildMarketplaceMatrix(results).map(row => [row.asin, row]));
+
+  const csv = [
+    headers.join(','),
+    ...inputOrder.map(asin => {
+      const row = rowsByAsin.get(asin);
+      if (!row) {
+        return [asin, '"N/A"', '"N/A"', ...marketplaces.map(() => '"No Result"'), currentDate].join(',');
+      }
+      return [
+        asin,
+        `"${getProductTitle(row.result).replace(/"/g, '""')}"`,
+        `"${getProductBrand(row.result).replace(/"/g, '""')}"`,
+        ...marketplaces.map(code => {
+          const cell = row.cells[code];
+          return `"${cell ? getCSVStatus(cell, language, !utf8Bom) : 'No Result'}"`;
+        }),
+        currentDate
+      ].join(',');
+    })
+  ].join('\n');
+
+  return utf8Bom ? `${UTF8_BOM}${csv}` : csv;
+};
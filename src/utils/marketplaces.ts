@@ -0,0 +1,48 @@
+// Amazon marketplaces supported by SP-API settings
+
+export interface Marketplace {
+  code: string;
+  domain: string;
+}
+
+export const MARKETPLACES: Marketplace[] = [
+  { code: 'US', domain: 'amazon.com' },
+  { code: 'CA', domain: 'amazon.ca' },
+  { code: 'MX', domain: 'amazon.com.mx' },
+  { code: 'BR', domain: 'amazon.com.br' },
+  { code: 'DE', domain: 'amazon.de' },
+  { code: 'ES', domain: 'amazon.es' },
+  { code: 'FR', domain: 'amazon.fr' },
+  { code: 'IT', domain: 'amazon.it' },
+  { code: 'NL', domain: 'amazon.nl' },
+  { code: 'GB', domain: 'amazon.co.uk' },
+  { code: 'SE', domain: 'amazon.se' },
+  { code: 'PL', domain: 'amazon.pl' },
+  { code: 'BE', domain: 'amazon.com.be' },
+  { code: 'EG', domain: 'amazon.eg' },
+  { code: 'TR', domain: 'amazon.com.tr' },
+  { code: 'SA', domain: 'amazon.sa' },
+  { code: 'AE', domain: 'amazon.ae' },
+  { code: 'IN', domain: 'amazon.in' },
+  { code: 'JP', domain: 'amazon.co.jp' },
+  { code: 'AU', domain: 'amazon.com.au' },
+  { code: 'SG', domain: 'amazon.sg' }
+];
+
+export const getMarketplaceDomain = (code: string): string => {
+  return MARKETPLACES.find(marketplace => marketplace.code === code)?.domain || code;
+};
+
+// Longest match wins so www.amazon.com.mx isn't taken for amazon.com
+export const getMarketplaceByHost = (host: string): Marketplace | null => {
+  const normalizedHost = host.toLowerCase();
+  return MARKETPLACES
+    .filter(marketplace => normalizedHost === marketplace.domain || normalizedHost.endsWith(`.${marketplace.domain}`))
+    .sort((a, b) => b.domain.length - a.domain.length)[0] || null;
+};
+
+// Seller Central runs on each marketplace's own domain (sellercentral.amazon.de, ...)
+export const getSellerCentralOrigin = (code: string): string => {
+  const marketplace = MARKETPLACES.find(item => item.code === code) || MARKETPLACES[0];
+  return `https://sellercentral.${marketplace.domain}`;
+};
@@ -0,0 +1,114 @@
+// Page scan utility functions - collect ASINs from the DOM of the active tab
+// (supplier catalogs, Keepa lists, storefronts) through activeTab + scripting
+
+import { isValidAsin } from './asin';
+import { parseAmazonUrl } from './amazonUrl';
+
+export type PageAsinSource = 'attribute' | 'link' | 'text';
+
+export const PAGE_ASIN_SOURCE_LABEL_KEYS: Record<PageAsinSource, string> = {
+  attribute: 'pageSourceAttribute',
+  link: 'pageSourceLink',
+  text: 'pageSourceText'
+};
+
+interface PageCandidate {
+  source: PageAsinSource;
+  value: string; // attribute value, link href or ASIN-like text
+  context: string; // link text or the words around the match
+}
+
+export interface PageAsin {
+  asin: string;
+  source: PageAsinSource; // where it was first found
+  context: string;
+  occurrences: number;
+}
+
+export interface PageScanResult {
+  title: string;
+  url: string;
+  asins: PageAsin[]; // unique, in page order
+}
+
+const B0_IN_TEXT_PATTERN = /\bB0[A-Z0-9]{8}\b/g;
+
+/**
+ * Runs inside the scanned page, so it can't use anything from this module -
+ * chrome.scripting serializes the function body on its own.
+ */
+const collectPageCandidates = (): PageCandidate[] => {
+  const candidates: PageCandidate[] = [];
+  const clean = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim().slice(0, 80);
+
+  document.querySelectorAll('[data-asin]').forEach(element => {
+    const value = element.getAttribute('data-asin') || '';
+    if (value) candidates.push({ source: 'attribute', value, context: clean(element.textContent) });
+  });
+
+  document.querySelectorAll('a[href]').forEach(element => {
+    const link = element as HTMLAnchorElement;
+    candidates.push({ source: 'link', value: link.href, context: clean(link.textContent || link.title) });
+  });
+
+  const text = document.body?.innerText || '';
+  for (const match of text.matchAll(/\bB0[A-Z0-9]{8}\b/g)) {
+    const start = match.index || 0;
+    candidates.push({
+      source: 'text',
+      value: match[0],
+      context: clean(text.slice(Math.max(0, start - 30), start + match[0].length + 30))
+    });
+  }
+
+  return candidates;
+};
+
+const getCandidateAsin = ({ source, value }: PageCandidate): string | null => {
+  if (source !== 'link') {
+    const asin = value.trim().toUpperCase();
+    return isValidAsin(asin) ? asin : null;
+  }
+  // Amazon product links, else links that carry an ASIN elsewhere (Keepa, trackers)
+  const link = parseAmazonUrl(value);
+  if (link?.asin) return isValidAsin(link.asin) ? link.asin : null;
+  return value.toUpperCase().match(B0_IN_TEXT_PATTERN)?.[0] || null;
+};
+
+export const extractPageAsins = (candidates: PageCandidate[]): PageAsin[] => {
+  const found = new Map<string, PageAsin>();
+  candidates.forEach(candidate => {
+    const asin = getCandidateAsin(candidate);
+    if (!asin) return;
+    const existing = found.get(asin);
+    if (existing) {
+      existing.occurrences++;
+      if (!existing.context && candidate.context) existing.context = candidate.context;
+    } else {
+      found.set(asin, { asin, source: candidate.source, context: candidate.context, occurrences: 1 });
+    }
+  });
+  return [...found.values()];
+};
+
+/**
+ * Scans the active tab. Throws when the page can't be scripted (browser pages,
+ * the Web Store) or access to the tab was not granted.
+ */
+export const scanActiveTab = async (): Promise<PageScanResult> => {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id) {
+    throw new Error('No active tab');
+  }
+
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId: tab.id },
+    func: collectPageCandidates
+  });
+
+  return {
+    title: tab.title || '',
+    url: tab.url || '',
+    asins: extractPageAsins((injection?.result as PageCandidate[]) || [])
+  };
+};
@@ -0,0 +1,38 @@
+// Monthly check quota helpers - same numbers the header shows from
+// SubscriptionContext, usable outside React (background worker)
+
+import { SubscriptionData } from '../contexts/SubscriptionContext';
+
+declare const apiClient: any;
+
+export interface QuotaStatus {
+  used: number;
+  limit: number; // -1 means unlimited
+  remaining: number; // Infinity when unlimited
+  resetDate?: string;
+}
+
+export const getQuotaStatus = (data: SubscriptionData): QuotaStatus => {
+  const used = data.usage?.current || 0;
+  const limit = data.plan?.monthlyLimit ?? data.usage?.limit ?? 0;
+  return {
+    used,
+    limit,
+    remaining: limit === -1 ? Infinity : Math.max(0, limit - used),
+    resetDate: data.usage?.resetDate
+  };
+};
+
+// Null when the subscription data can't be loaded
+export const fetchQuotaStatus = async (): Promise<QuotaStatus | null> => {
+  try {
+    const result = await apiClient.getSubscriptionData();
+    if (!result.success || !result.data) {
+      return null;
+    }
+    return getQuotaStatus(result.data);
+  } catch (error) {
+    console.error('Failed to fetch quota status:', error);
+    return null;
+  }
+};
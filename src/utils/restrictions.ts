@@ -0,0 +1,50 @@
+// Listing restriction helpers - condition labels and apply-to-sell links for
+// the restriction payload returned with each check result
+
+import { CheckResult, RestrictionReason } from '../types/check';
+import { getSellerCentralOrigin } from './marketplaces';
+
+const REASON_LABEL_KEYS: Record<string, string> = {
+  APPROVAL_REQUIRED: 'reasonApprovalRequired',
+  ASIN_NOT_FOUND: 'reasonAsinNotFound',
+  NOT_ELIGIBLE: 'reasonNotEligible'
+};
+
+// new_new -> "New", used_like_new -> "Used · Like New"
+export const formatConditionType = (conditionType?: string): string => {
+  if (!conditionType) return '';
+  const [condition, ...subCondition] = conditionType.split('_');
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+  const label = capitalize(condition);
+  const subLabel = subCondition.map(capitalize).join(' ');
+  return subLabel && subLabel !== label ? `${label} · ${subLabel}` : label;
+};
+
+export const getReasonLabel = (reason: RestrictionReason, t: (key: string) => string): string => {
+  const key = reason.reasonCode && REASON_LABEL_KEYS[reason.reasonCode];
+  return key ? t(key) : reason.reasonCode || '';
+};
+
+/**
+ * Returns the "request approval" link for a result. Links sent with the
+ * restriction reasons win; otherwise the Seller Central approval page of the
+ * marketplace is built for results that need approval.
+ */
+export const getApprovalUrl = (result: CheckResult, marketplace?: string): string | null => {
+  for (const restriction of result.restrictions || []) {
+    for (const reason of restriction.reasons || []) {
+      const link = reason.links?.find(item => item.resource && (!item.verb || item.verb === 'GET'));
+      if (link) return link.resource;
+    }
+  }
+
+  const needsApproval = result.detailedStatus === 'APPROVAL REQUIRED' ||
+    (result.restrictions || []).some(restriction => {
+      return (restriction.reasons || []).some(reason => reason.reasonCode === 'APPROVAL_REQUIRED');
+    });
+  if (!needsApproval) return null;
+
+  const code = result.marketplace || marketplace;
+  const origin = getSellerCentralOrigin(code || '');
+  return `${origin}/hz/approvalrequest/restrictions/approve?asin=${encodeURIComponent(result.asin)}`;
+};
@@ -0,0 +1,152 @@
+// Clipboard helpers - results as TSV (pastes into Sheets/Excel columns),
+// Markdown, JSON or plain ASIN lists, in the user's input order
+
+import { CheckResult, StatusClass } from '../types/check';
+import { getConditionResult } from './conditions';
+import { formatSourceCodes } from './identifier';
+import { buildMarketplaceMatrix, getMatrixHeaders } from './marketplaceMatrix';
+import {
+  ResultsCsvOptions,
+  getCSVStatus,
+  getExportRows,
+  getResultHeaders,
+  hasIdentifierColumn
+} from './resultExport';
+import { getProductBrand, getProductTitle, getStatusClass } from './resultStatus';
+
+export type CopyFormat = 'tsv' | 'markdown' | 'json' | 'sellableAsins' | 'approvalAsins' | 'restrictedAsins';
+
+export const COPY_FORMATS: CopyFormat[] = ['tsv', 'markdown', 'json', 'sellableAsins', 'approvalAsins', 'restrictedAsins'];
+
+export const COPY_FORMAT_LABEL_KEYS: Record<CopyFormat, string> = {
+  tsv: 'copyAsTsv',
+  markdown: 'copyAsMarkdown',
+  json: 'copyAsJson',
+  sellableAsins: 'copySellableAsins',
+  approvalAsins: 'copyApprovalAsins',
+  restrictedAsins: 'copyRestrictedAsins'
+};
+
+const LIST_STATUS_CLASSES: Partial<Record<CopyFormat, StatusClass>> = {
+  sellableAsins: 'success',
+  approvalAsins: 'warning',
+  restrictedAsins: 'error'
+};
+
+export interface CopyOptions extends Omit<ResultsCsvOptions, 'utf8Bom'> {
+  marketplaces?: string[]; // multi-marketplace runs copy the ASIN x marketplace matrix
+}
+
+const formatDate = (timestamp: number, options: CopyOptions) => {
+  return new Date(timestamp).toLocaleDateString(options.language === 'tr' ? 'tr-TR' : 'en-US');
+};
+
+// Header row first, same columns as the CSV export
+const getTableRows = (options: CopyOptions): string[][] => {
+  const { results, inputOrder, language, identifiers = {}, conditions = [], marketplaces = [] } = options;
+  const now = Date.now();
+
+  if (marketplaces.length > 1) {
+    const rowsByAsin = new Map(buildMarketplaceMatrix(results).map(row => [row.asin, row]));
+    return [
+      getMatrixHeaders(marketplaces, language),
+      ...[...new Set(inputOrder)].map(asin => {
+        const row = rowsByAsin.get(asin);
+        if (!row) return [asin, 'N/A', 'N/A', ...marketplaces.map(() => 'No Result')];
+        return [
+          asin,
+          getProductTitle(row.result),
+          getProductBrand(row.result),
+          ...marketplaces.map(code => {
+            const cell = row.cells[code];
+            return cell ? getCSVStatus(cell, language, false) : 'No Result';
+          })
+        ];
+      })
+    ];
+  }
+
+  const hasIdentifiers = hasIdentifierColumn(results, identifiers);
+  return [
+    getResultHeaders(language, hasIdentifiers, conditions),
+    ...getExportRows(results, inputOrder, identifiers).map(({ asin, identifier, result }) => {
+      const identifierColumn = hasIdentifiers ? [identifier] : [];
+      if (!result) {
+        return [asin, ...identifierColumn, 'N/A', 'N/A', 'No Result', ...conditions.map(() => 'N/A'), formatDate(now, options)];
+      }
+      return [
+        asin,
+        ...identifierColumn,
+        getProductTitle(result),
+        getProductBrand(result),
+        getCSVStatus(result, language, false),
+        ...conditions.map(condition => {
+          const conditionResult = getConditionResult(result, condition);
+          return conditionResult ? getCSVStatus(conditionResult, language, false) : 'N/A';
+        }),
+        formatDate(result.checkedAt || now, options)
+      ];
+    })
+  ];
+};
+
+const toTsv = (rows: string[][]): string => {
+  return rows.map(row => row.map(value => value.replace(/[\t\r\n]+/g, ' ')).join('\t')).join('\n');
+};
+
+const toMarkdownTable = (rows: string[][]): string => {
+  const [headers, ...body] = rows.map(row => row.map(value => value.replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ')));
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...body.map(row => `| ${row.join(' | ')} |`)
+  ].join('\n');
+};
+
+// One object per check, in input order; results that never arrived are left out
+const toJson = ({ results, inputOrder, identifiers = {}, conditions = [] }: CopyOptions): string => {
+  const resultsByAsin = new Map<string, CheckResult[]>();
+  results.forEach(result => {
+    resultsByAsin.set(result.asin, [...(resultsByAsin.get(result.asin) || []), result]);
+  });
+
+  const entries = [...new Set(inputOrder)].flatMap(asin => (resultsByAsin.get(asin) || []).map(result => ({
+    asin,
+    identifier: result.identifier || formatSourceCodes(identifiers, asin) || undefined,
+    title: getProductTitle(result),
+    brand: getProductBrand(result),
+    status: getStatusClass(result),
+    sellable: result.status === 'error' ? null : result.sellable === true,
+    detailedStatus: result.detailedStatus,
+    marketplace: result.marketplace,
+    conditions: conditions.length > 0
+      ? Object.fromEntries(conditions.map(condition => {
+        const conditionResult = getConditionResult(result, condition);
+        return [condition, conditionResult ? getStatusClass(conditionResult) : null];
+      }))
+      : undefined,
+    checkedAt: result.checkedAt ? new Date(result.checkedAt).toISOString() : undefined,
+    error: result.error
+  })));
+
+  return JSON.stringify(entries, null, 2);
+};
+
+// ASINs with at least one result in the status class, once each
+const getAsinsByStatus = ({ results, inputOrder }: CopyOptions, statusClass: StatusClass): string[] => {
+  const matching = new Set(results.filter(result => getStatusClass(result) === statusClass).map(result => result.asin));
+  return [...new Set(inputOrder)].filter(asin => matching.has(asin));
+};
+
+export const buildClipboardText = (format: CopyFormat, options: CopyOptions): string => {
+  switch (format) {
+    case 'tsv':
+      return toTsv(getTableRows(options));
+    case 'markdown':
+      return toMarkdownTable(getTableRows(options));
+    case 'json':
+      return toJson(options);
+    default:
+      return getAsinsByStatus(options, LIST_STATUS_CLASSES[format] as StatusClass).join('\n');
+  }
+};
@@ -0,0 +1,193 @@
+// Result export helpers - CSV built in the user's input order, shared by the
+// Check page and reopened history runs
+
+import { Language } from '../contexts/LanguageContext';
+import { CheckResult, ItemCondition } from '../types/check';
+import { getConditionResult } from './conditions';
+import { formatSourceCodes } from './identifier';
+import { getProductBrand, getProductTitle } from './resultStatus';
+
+export interface ResultsCsvOptions {
+  results: CheckResult[];
+  inputOrder: string[]; // original input order (with duplicates)
+  language: Language;
+  identifiers?: Record<string, string[]>; // ASIN -> source UPC/EAN/ISBN codes
+  conditions?: ItemCondition[]; // one status column per checked condition
+  utf8Bom?: boolean; // lets Excel detect UTF-8, so Turkish text can keep its letters
+}
+
+// One export row per input ASIN (duplicates included); result is missing when none arrived
+export interface ExportRow {
+  asin: string;
+  identifier: string;
+  result: CheckResult | null;
+}
+
+export const UTF8_BOM = '\uFEFF';
+
+const CONDITION_HEADERS: Record<ItemCondition, { en: string; tr: string }> = {
+  new: { en: 'NEW', tr: 'YENİ' },
+  used: { en: 'USED', tr: 'İKİNCİ EL' },
+  collectible: { en: 'COLLECTIBLE', tr: 'KOLEKSİYONLUK' },
+  refurbished: { en: 'REFURBISHED', tr: 'YENİLENMİŞ' }
+};
+
+const TURKISH_ASCII: Record<string, string> = {
+  'İ': 'I', 'ı': 'i', 'Ş': 'S', 'ş': 's', 'Ğ': 'G', 'ğ': 'g',
+  'Ü': 'U', 'ü': 'u', 'Ö': 'O', 'ö': 'o', 'Ç': 'C', 'ç': 'c'
+};
+
+// Excel opens BOM-less CSV files in the system code page, which garbles Turkish letters
+export const toAscii = (text: string): string => {
+  return text.replace(/[İıŞşĞğÜüÖöÇç]/g, char => TURKISH_ASCII[char]);
+};
+
+export const getCSVStatus = (result: CheckResult, language: Language, asciiOnly = true): string => {
+  let status = '';
+
+  if (result.status === 'error') {
+    status = language === 'tr' ? 'HATA' : 'ERROR';
+  } else if (result.detailedStatus) {
+    switch (result.detailedStatus) {
+      case 'Eligible':
+        status = language === 'tr' ? 'SATILABİLİR' : 'SELLABLE';
+        break;
+      case 'APPROVAL REQUIRED':
+        status = language === 'tr' ? 'ONAY GEREKLİ' : 'APPROVAL REQUIRED';
+        break;
+      case 'NOT_FOUND_IN_MARKETPLACE':
+        status = language === 'tr' ? 'PAZARYERİNDE BULUNAMADI' : 'NOT FOUND IN MARKETPLACE';
+        break;
+      case 'Restricted':
+        status = language === 'tr' ? 'KISITLI' : 'RESTRICTED';
+        break;
+      case 'Ineligible':
+        status = language === 'tr' ? 'UYGUN DEĞİL' : 'NOT ELIGIBLE';
+        break;
+      default:
+        status = language === 'tr' ? 'BİLİNMİYOR' : 'UNKNOWN';
+    }
+  } else if (result.sellable === true) {
+    status = language === 'tr' ? 'SATILABİLİR' : 'SELLABLE';
+  } else if (result.sellable === false) {
+    status = language === 'tr' ? 'SATILAMAZ' : 'NOT SELLABLE';
+  } else {
+    status = language === 'tr' ? 'BİLİNMİYOR' : 'UNKNOWN';
+  }
+
+  return asciiOnly ? toAscii(status) : status;
+};
+
+export const getConditionHeader = (condition: ItemCondition, language: Language): string => {
+  return CONDITION_HEADERS[condition][language === 'tr' ? 'tr' : 'en'];
+};
+
+export const getCheckDateHeader = (language: Language): string => {
+  return language === 'tr' ? 'KONTROL TARİHİ' : 'CHECK DATE';
+};
+
+export const getImageHeader = (language: Language): string => {
+  return language === 'tr' ? 'GÖRSEL' : 'IMAGE';
+};
+
+// ASIN, [UPC/EAN], TITLE, BRAND, STATUS, [one per condition], CHECK DATE
+export const getResultHeaders = (language: Language, hasIdentifiers: boolean, conditions: ItemCondition[]) => {
+  const headers = language === 'tr'
+    ? ['ASIN', 'BAŞLIK', 'MARKA', 'DURUM']
+    : ['ASIN', 'TITLE', 'BRAND', 'STATUS'];
+  headers.push(...conditions.map(condition => getConditionHeader(condition, language)));
+  headers.push(getCheckDateHeader(language));
+
+  // ASINs resolved from UPC/EAN/ISBN codes keep their source code next to them
+  if (hasIdentifiers) {
+    headers.splice(1, 0, 'UPC/EAN');
+  }
+  return headers;
+};
+
+export const getExportRows = (
+  results: CheckResult[],
+  inputOrder: string[],
+  identifiers: Record<string, string[]> = {}
+): ExportRow[] => {
+  // Create a map of results by ASIN for quick lookup
+  const resultsMap = new Map<string, CheckResult>();
+  results.forEach(result => {
+    resultsMap.set(result.asin, result);
+  });
+
+  // Export in the order user inputted ASINs
+  return inputOrder.map(asin => {
+    const result = resultsMap.get(asin) || null;
+    return { asin, identifier: result?.identifier || formatSourceCodes(identifiers, asin), result };
+  });
+};
+
+export const hasIdentifierColumn = (results: CheckResult[], identifiers: Record<string, string[]> = {}) => {
+  return results.some(result => result.identifier) || Object.keys(identifiers).length > 0;
+};
+
+export const buildResultsCsv = ({
+  results,
+  inputOrder,
+  language,
+  identifiers = {},
+  conditions = [],
+  utf8Bom = false
+}: ResultsCsvOptions): string => {
+  // Without a BOM, Turkish headers and statuses are ASCII only
+  const text = (value: string) => (utf8Bom ? value : toAscii(value));
+  const hasIdentifiers = hasIdentifierColumn(results, identifiers);
+  const headers = getResultHeaders(language, hasIdentifiers, conditions).map(text);
+  const currentDate = new Date().toLocaleDateString(language === 'tr' ? 'tr-TR' : 'en-US');
+
+  const csv = [
+    headers.join(','),
+    ...getExportRows(results, inputOrder, identifiers).map(({ asin, identifier, result }) => {
+      const identifierColumn = hasIdentifiers ? [`"${identifier}"`] : [];
+      if (!result) {
+        // If result not found, create a placeholder row
+        return [
+          asin,
+          ...identifierColumn,
+          '"N/A"',
+          '"N/A"',
+          '"No Result"',
+          ...conditions.map(() => '"N/A"'),
+          currentDate
+        ].join(',');
+      }
+
+      return [
+        result.asin,
+        ...identifierColumn,
+        `"${getProductTitle(result).replace(/"/g, '""')}"`,
+        `"${getProductBrand(result).replace(/"/g, '""')}"`,
+        `"${getCSVStatus(result, language, !utf8Bom)}"`,
+        ...conditions.map(condition => {
+          const conditionResult = getConditionResult(result, condition);
+          return `"${conditionResult ? getCSVStatus(conditionResult, language, !utf8Bom) : 'N/A'}"`;
+        }),
+        currentDate
+      ].join(',');
+    })
+  ].join('\n');
+
+  return utf8Bom ? `${UTF8_BOM}${csv}` : csv;
+};
+
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const getExportFileName = (extension: string, date = new Date()) => {
+  return `fastchecker-results-${date.toISOString().split('T')[0]}.${extension}`;
+};
@@ -0,0 +1,69 @@
+// Result filter helpers - status/search filtering and sorting for the results
+// list; the same visible subset is what gets exported
+
+import { CheckResult, ResultFilters, StatusClass } from '../types/check';
+import { getProductBrand, getProductTitle, getStatusClass } from './resultStatus';
+
+export const STATUS_CLASSES: StatusClass[] = ['success', 'warning', 'error', 'not-found'];
+
+export const DEFAULT_RESULT_FILTERS: ResultFilters = {
+  statuses: [],
+  query: '',
+  sortField: 'arrival',
+  sortOrder: 'asc'
+};
+
+export const isFilterActive = (filters: ResultFilters) => {
+  return filters.statuses.length > 0 || filters.query.trim() !== '';
+};
+
+export const countByStatus = (results: CheckResult[]) => {
+  const counts: Record<StatusClass, number> = { success: 0, warning: 0, error: 0, 'not-found': 0 };
+  results.forEach(result => {
+    counts[getStatusClass(result)]++;
+  });
+  return counts;
+};
+
+const matchesQuery = (result: CheckResult, query: string) => {
+  return [result.asin, result.identifier || '', getProductTitle(result), getProductBrand(result)]
+    .some(value => value.toLowerCase().includes(query));
+};
+
+/**
+ * Filters and sorts results. "arrival" keeps the order they are passed in
+ * (newest first on the Check page); "input" follows the user's input order.
+ */
+export const applyResultFilters = (
+  results: CheckResult[],
+  filters: ResultFilters,
+  inputOrder: string[]
+): CheckResult[] => {
+  const query = filters.query.trim().toLowerCase();
+  const filtered = results.filter(result => {
+    if (filters.statuses.length > 0 && !filters.statuses.includes(getStatusClass(result))) {
+      return false;
+    }
+    return !query || matchesQuery(result, query);
+  });
+
+  const direction = filters.sortOrder === 'asc' ? 1 : -1;
+  switch (filters.sortField) {
+    case 'input': {
+      const positions = new Map<string, number>();
+      inputOrder.forEach((asin, index) => {
+        if (!positions.has(asin)) positions.set(asin, index);
+      });
+      const position = (asin: string) => positions.get(asin) ?? Number.MAX_SAFE_INTEGER;
+      return filtered.sort((a, b) => (position(a.asin) - position(b.asin)) * direction);
+    }
+    case 'status':
+      return filtered.sort((a, b) => {
+        return (STATUS_CLASSES.indexOf(getStatusClass(a)) - STATUS_CLASSES.indexOf(getStatusClass(b))) * direction;
+      });
+    case 'brand':
+      return filtered.sort((a, b) => getProductBrand(a).localeCompare(getProductBrand(b)) * direction);
+    default:
+      return direction === 1 ? filtered : filtered.reverse();
+  }
+};
@@ -0,0 +1,87 @@
+// Result display helpers - status classes/labels and product info shared by
+// every view that renders check results
+
+import { CheckResult, StatusClass } from '../types/check';
+
+export const PLACEHOLDER_IMAGE = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNDgiIGhlaWdodD0iNDgiIHZpZXdCb3g9IjAgMCA0OCA0OCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3Qgd2lkdGg9IjQ4IiBoZWlnaHQ9IjQ4IiBmaWxsPSIjRjNGNEY2Ii8+CjxwYXRoIGQ9Ik0yNCAzNkMzMC42MjcgMzYgMzYgMzAuNjI3IDM2IDI0QzM2IDE3LjM3MyAzMC42MjcgMTIgMjQgMTJDMTcuMzczIDEyIDEyIDE3LjM3MyAxMiAyNEMxMiAzMC42MjcgMTcuMzczIDM2IDI0IDM2WiIgZmlsbD0iIzlDQTNBRiIvPgo8L3N2Zz4K';
+
+export const getProductTitle = (result: CheckResult): string => {
+  return result.details?.title || result.details?.itemName || result.title || 'N/A';
+};
+
+export const getProductBrand = (result: CheckResult): string => {
+  return result.details?.brand || result.details?.brandName || result.brand || 'N/A';
+};
+
+export const getProductImage = (result: CheckResult): string => {
+  return result.imageUrl || result.details?.imageUrl || PLACEHOLDER_IMAGE;
+};
+
+export const getStatusClass = (result: CheckResult): StatusClass => {
+  // Backend'den gelen result objesini kontrol et
+  if (result.status === 'error') {
+    return 'error';
+  }
+  
+  // Use detailedStatus if available, otherwise fallback to sellable
+  if (result.detailedStatus) {
+    switch (result.detailedStatus) {
+      case 'Eligible':
+        return 'success';
+      case 'APPROVAL REQUIRED':
+        return 'warning';
+      case 'NOT_FOUND_IN_MARKETPLACE':
+        return 'not-found'; // Gri
+      case 'Restricted':
+      case 'Ineligible':
+        return 'error'; // Kırmızı
+      default:
+        return 'warning';
+    }
+  }
+  
+  // Fallback to old logic
+  if (result.sellable === true) {
+    return 'success';
+  } else if (result.sellable === false) {
+    return 'error';
+  }
+  
+  // Final fallback
+  return 'warning';
+};
+
+export const getStatusText = (result: CheckResult, t: (key: string) => string) => {
+  // Backend'den gelen result objesini kontrol et
+  if (result.status === 'error') {
+    return t('checkError');
+  }
+  
+  // Use detailedStatus if available, otherwise fallback to sellable
+  if (result.detailedStatus) {
+    switch (result.detailedStatus) {
+      case 'Eligible':
+        return 'SELLABLE';
+      case 'APPROVAL REQUIRED':
+        return 'APPROVAL\nREQUIRED';
+      case 'NOT_FOUND_IN_MARKETPLACE':
+        return t('notFoundInMarketplace').toUpperCase();
+      case 'Restricted':
+        return 'RESTRICTED';
+      case 'Ineligible':
+        return 'NOT ELIGIBLE';
+      default:
+        return 'UNKNOWN';
+    }
+  }
+  
+  // Fallback to old logic
+  if (result.sellable === true) {
+    return 'SELLABLE';
+  } else if (result.sellable === false) {
+    return 'NOT ELIGIBLE';
+  }
+  
+  // Final fallback
+  return 'UNKNOWN';
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { CheckHistoryEntry, CheckResult } from '../types/check';
+import { buildDiffCsv, diffRuns, getStatusCategory, groupTransitions } from './runDiff';
+
+const result = (asin: string, detailedStatus: string, marketplace?: string): CheckResult => ({
+  asin,
+  status: 'success',
+  detailedStatus,
+  title: `Product ${asin}`,
+  ...(marketplace ? { marketplace } : {})
+});
+
+const run = (createdAt: number, results: CheckResult[], extra: Partial<CheckHistoryEntry> = {}): CheckHistoryEntry => ({
+  id: `run-${createdAt}`,
+  status: 'completed',
+  inputOrder: [...new Set(results.map(item => item.asin))],
+  results,
+  failedCount: 0,
+  unsentAsins: [],
+  createdAt,
+  completedAt: createdAt,
+  ...extra
+});
+
+describe('getStatusCategory', () => {
+  it('prefers errors, then the detailed status, then the sellable flag', () => {
+    expect(getStatusCategory({ asin: 'A', status: 'error', detailedStatus: 'Eligible' })).toBe('ERROR');
+    expect(getStatusCategory({ asin: 'A', status: 'success', detailedStatus: 'Restricted', sellable: true })).toBe('Restricted');
+    expect(getStatusCategory({ asin: 'A', status: 'success', detailedStatus: 'Something new' })).toBe('UNKNOWN');
+    expect(getStatusCategory({ asin: 'A', status: 'success', sellable: false })).toBe('Ineligible');
+  });
+});
+
+describe('diffRuns', () => {
+  it('orders the runs oldest first and classifies every ASIN', () => {
+    const older = run(1, [result('B000000001', 'Restricted'), result('B000000002', 'Eligible'), result('B000000003', 'Eligible')]);
+    const newer = run(2, [result('B000000001', 'Eligible'), result('B000000002', 'Eligible'), result('B000000004', 'Eligible')]);
+
+    const diff = diffRuns(newer, older);
+    expect(diff.base.id).toBe('run-1');
+    expect(diff.rows.map(row => [row.asin, row.change])).toEqual([
+      ['B000000001', 'changed'],
+      ['B000000002', 'unchanged'],
+      ['B000000004', 'added'],
+      ['B000000003', 'removed']
+    ]);
+    expect(groupTransitions(diff.rows).map(([key]) => key)).toEqual(['Restricted -> Eligible']);
+  });
+
+  it('compares an ASIN per marketplace in multi-marketplace runs', () => {
+    const older = run(1, [result('B000000001', 'Restricted', 'US'), result('B000000001', 'Eligible', 'DE')], {
+      marketplaces: ['US', 'DE']
+    });
+    const newer = run(2, [result('B000000001', 'Eligible', 'US'), result('B000000001', 'Eligible', 'DE')], {
+      marketplaces: ['US', 'DE']
+    });
+
+    const diff = diffRuns(older, newer);
+    expect(diff.marketplaceMismatch).toBe(false);
+    expect(diff.rows.map(row => [row.marketplace, row.change])).toEqual([['US', 'changed'], ['DE', 'unchanged']]);
+  });
+
+  it('never reports a status change between different marketplaces', () => {
+    const older = run(1, [result('B000000001', 'Restricted')], { marketplace: 'US' });
+    const newer = run(2, [result('B000000001', 'Eligible')], { marketplace: 'DE' });
+
+    const diff = diffRuns(older, newer);
+    expect(diff.marketplaceMismatch).toBe(true);
+    expect(diff.rows.map(row => [row.marketplace, row.change])).toEqual([['DE', 'added'], ['US', 'removed']]);
+  });
+
+  it('takes a run saved without a marketplace to be in the other run\'s one', () => {
+    const older = run(1, [result('B000000001', 'Restricted')]);
+    const newer = run(2, [result('B000000001', 'Eligible')], { marketplace: 'US' });
+
+    const diff = diffRuns(older, newer);
+    expect(diff.marketplaceMismatch).toBe(false);
+    expect(diff.rows.map(row => [row.marketplace, row.change])).toEqual([['US', 'changed']]);
+  });
+
+  it('keeps results that name no marketplace at all', () => {
+    const diff = diffRuns(run(1, [result('B000000001', 'Restricted')]), run(2, [result('B000000001', 'Eligible')]));
+    expect(diff.rows.map(row => [row.marketplace, row.change])).toEqual([['', 'changed']]);
+  });
+});
+
+describe('buildDiffCsv', () => {
+  it('writes a marketplace column per row', () => {
+    const older = run(1, [result('B000000001', 'Restricted', 'US')], { marketplace: 'US' });
+    const newer = run(2, [result('B000000001', 'Eligible', 'US')], { marketplace: 'US' });
+
+    const [header, row] = buildDiffCsv(diffRuns(older, newer), 'en').split('\n');
+    expect(header).toBe('ASIN,MARKETPLACE,TITLE,BEFORE,AFTER,CHANGE');
+    expect(row.startsWith('B000000001,amazon.com,"Product B000000001",')).toBe(true);
+    expect(row.endsWith('"CHANGED"')).toBe(true);
+  });
+});
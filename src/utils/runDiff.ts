@@ -0,0 +1,143 @@
+// Run comparison helpers - which ASINs moved between eligibility statuses
+// from one saved run to another
+
+import { Language } from '../contexts/LanguageContext';
+import { CheckHistoryEntry, CheckResult, RunDiff, RunDiffRow, StatusCategory } from '../types/check';
+import { toHistorySummary } from './checkHistory';
+import { getMarketplaceDomain } from './marketplaces';
+import { getCSVStatus } from './resultExport';
+import { getProductTitle } from './resultStatus';
+
+const DETAILED_STATUS_CATEGORIES: StatusCategory[] = [
+  'Eligible',
+  'APPROVAL REQUIRED',
+  'Restricted',
+  'Ineligible',
+  'NOT_FOUND_IN_MARKETPLACE'
+];
+
+// Same precedence as the status badge: error, then detailedStatus, then sellable
+export const getStatusCategory = (result: CheckResult): StatusCategory => {
+  if (result.status === 'error') return 'ERROR';
+  if (result.detailedStatus) {
+    return DETAILED_STATUS_CATEGORIES.includes(result.detailedStatus as StatusCategory)
+      ? result.detailedStatus as StatusCategory
+      : 'UNKNOWN';
+  }
+  if (result.sellable === true) return 'Eligible';
+  if (result.sellable === false) return 'Ineligible';
+  return 'UNKNOWN';
+};
+
+// Marketplaces a run was checked in; empty when it was saved without one
+const getRunMarketplaces = (entry: CheckHistoryEntry): string[] => {
+  if (entry.marketplaces?.length) return entry.marketplaces;
+  const fromResults = [...new Set(entry.results.map(result => result.marketplace).filter(Boolean))] as string[];
+  if (fromResults.length > 0) return fromResults;
+  return entry.marketplace ? [entry.marketplace] : [];
+};
+
+const getDiffKey = (marketplace: string, asin: string) => `${marketplace}:${asin}`;
+
+// Multi-marketplace runs hold one result per ASIN and marketplace
+const indexResults = (entry: CheckHistoryEntry, fallbackMarketplace: string) => {
+  const resultsMap = new Map<string, CheckResult>();
+  entry.results.forEach(result => {
+    const marketplace = result.marketplace || entry.marketplace || fallbackMarketplace;
+    resultsMap.set(getDiffKey(marketplace, result.asin), result);
+  });
+  return resultsMap;
+};
+
+/**
+ * Compares two runs, oldest first regardless of argument order. Rows follow
+ * the newer run's input order; ASINs only in the older run come last. Each
+ * ASIN is compared per marketplace, so runs in different marketplaces never
+ * show a status "change".
+ */
+export const diffRuns = (first: CheckHistoryEntry, second: CheckHistoryEntry): RunDiff => {
+  const [base, compare] = first.createdAt <= second.createdAt ? [first, second] : [second, first];
+  const baseMarketplaces = getRunMarketplaces(base);
+  const compareMarketplaces = getRunMarketplaces(compare);
+  // A run saved without a marketplace is taken to be in the other run's one
+  const beforeMap = indexResults(base, compareMarketplaces.length === 1 ? compareMarketplaces[0] : '');
+  const afterMap = indexResults(compare, baseMarketplaces.length === 1 ? baseMarketplaces[0] : '');
+
+  const marketplaces = [...new Set([...compareMarketplaces, ...baseMarketplaces])];
+  const marketplaceMismatch = baseMarketplaces.length > 0 &&
+    compareMarketplaces.length > 0 &&
+    (baseMarketplaces.length !== compareMarketplaces.length ||
+      baseMarketplaces.some(code => !compareMarketplaces.includes(code)));
+
+  const keys = [...new Set([...compare.inputOrder, ...base.inputOrder])]
+    // '' holds results neither the run nor its results named a marketplace for
+    .flatMap(asin => [...marketplaces, ''].map(marketplace => ({ asin, marketplace })))
+    .filter(({ asin, marketplace }) => {
+      const key = getDiffKey(marketplace, asin);
+      return beforeMap.has(key) || afterMap.has(key);
+    });
+
+  const rows: RunDiffRow[] = keys.map(({ asin, marketplace }) => {
+    const key = getDiffKey(marketplace, asin);
+    const before = beforeMap.get(key) || null;
+    const after = afterMap.get(key) || null;
+    const beforeCategory = before ? getStatusCategory(before) : null;
+    const afterCategory = after ? getStatusCategory(after) : null;
+
+    let change: RunDiffRow['change'] = 'unchanged';
+    if (!before) {
+      change = 'added';
+    } else if (!after) {
+      change = 'removed';
+    } else if (beforeCategory !== afterCategory) {
+      change = 'changed';
+    }
+
+    return { asin, marketplace, before, after, beforeCategory, afterCategory, change };
+  });
+
+  return {
+    base: toHistorySummary(base),
+    compare: toHistorySummary(compare),
+    marketplaces,
+    marketplaceMismatch,
+    rows
+  };
+};
+
+// Changed rows grouped by transition, e.g. "Restricted -> Eligible"
+export const groupTransitions = (rows: RunDiffRow[]) => {
+  const groups = new Map<string, RunDiffRow[]>();
+  rows
+    .filter(row => row.change === 'changed')
+    .forEach(row => {
+      const key = `${row.beforeCategory} -> ${row.afterCategory}`;
+      groups.set(key, [...(groups.get(key) || []), row]);
+    });
+  return [...groups.entries()].sort((a, b) => b[1].length - a[1].length);
+};
+
+export const buildDiffCsv = (diff: RunDiff, language: Language): string => {
+  // CSV headers based on language (ASCII only for Turkish)
+  const headers = language === 'tr'
+    ? ['ASIN', 'PAZARYERI', 'BASLIK', 'ONCEKI DURUM', 'SONRAKI DURUM', 'DEGISIM']
+    : ['ASIN', 'MARKETPLACE', 'TITLE', 'BEFORE', 'AFTER', 'CHANGE'];
+  const changeLabels = language === 'tr'
+    ? { changed: 'DEGISTI', unchanged: 'AYNI', added: 'YENI', removed: 'CIKARILDI' }
+    : { changed: 'CHANGED', unchanged: 'UNCHANGED', added: 'ADDED', removed: 'REMOVED' };
+
+  return [
+    headers.join(','),
+    ...diff.rows.map(row => {
+      const title = getProductTitle((row.after || row.before)!);
+      return [
+        row.asin,
+        row.marketplace ? getMarketplaceDomain(row.marketplace) : '',
+        `"${title.replace(/"/g, '""')}"`,
+        `"${row.before ? getCSVStatus(row.before, language) : ''}"`,
+        `"${row.after ? getCSVStatus(row.after, language) : ''}"`,
+        `"${changeLabels[row.change]}"`
+      ].join(',');
+    })
+  ].join('\n');
+};
@@ -0,0 +1,101 @@
+// Watchlist storage helpers - shared by the side panel (editing) and the
+// background scheduler (re-checks), stored in chrome.storage.local
+
+import { Watchlist, WatchlistSchedule } from '../types/watchlist';
+
+const WATCHLISTS_STORAGE_KEY = 'watchlists';
+const MAX_WATCHLIST_CHANGES = 200;
+
+export const DEFAULT_CUSTOM_INTERVAL_HOURS = 12;
+
+export const getWatchlists = async (): Promise<Watchlist[]> => {
+  try {
+    const result = await chrome.storage.local.get([WATCHLISTS_STORAGE_KEY]);
+    return result[WATCHLISTS_STORAGE_KEY] || [];
+  } catch (error) {
+    console.error('Failed to get watchlists from storage:', error);
+    return [];
+  }
+};
+
+const saveWatchlists = async (watchlists: Watchlist[]): Promise<void> => {
+  await chrome.storage.local.set({ [WATCHLISTS_STORAGE_KEY]: watchlists });
+};
+
+/**
+ * Re-reads the stored list before writing so the panel and the scheduler
+ * don't overwrite each other's changes to other fields or watchlists.
+ */
+export const updateWatchlist = async (
+  id: string,
+  update: (watchlist: Watchlist) => Watchlist
+): Promise<Watchlist | null> => {
+  const watchlists = await getWatchlists();
+  const index = watchlists.findIndex(watchlist => watchlist.id === id);
+  if (index === -1) return null;
+
+  const updated = update(watchlists[index]);
+  updated.changes = updated.changes.slice(0, MAX_WATCHLIST_CHANGES);
+  watchlists[index] = updated;
+  await saveWatchlists(watchlists);
+  return updated;
+};
+
+export const createWatchlist = (
+  name: string,
+  asins: string[],
+  schedule: WatchlistSchedule = 'daily',
+  customIntervalHours = DEFAULT_CUSTOM_INTERVAL_HOURS
+): Watchlist => ({
+  id: `${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+  name,
+  asins,
+  schedule,
+  customIntervalHours: customIntervalHours > 0 ? customIntervalHours : DEFAULT_CUSTOM_INTERVAL_HOURS,
+  enabled: true,
+  statuses: {},
+  changes: [],
+  createdAt: Date.now()
+});
+
+// Appends ASINs that aren't on the list yet; returns how many were added
+export const addAsinsToWatchlist = async (id: string, asins: string[]): Promise<number> => {
+  let added = 0;
+  await updateWatchlist(id, watchlist => {
+    const newAsins = [...new Set(asins)].filter(asin => !watchlist.asins.includes(asin));
+    added = newAsins.length;
+    return { ...watchlist, asins: [...watchlist.asins, ...newAsins] };
+  });
+  return added;
+};
+
+export const addWatchlist = async (watchlist: Watchlist): Promise<void> => {
+  const watchlists = await getWatchlists();
+  await saveWatchlists([...watchlists, watchlist]);
+};
+
+export const deleteWatchlist = async (id: string): Promise<void> => {
+  const watchlists = await getWatchlists();
+  await saveWatchlists(watchlists.filter(watchlist => watchlist.id !== id));
+};
+
+export const onWatchlistsChanged = (callback: (watchlists: Watchlist[]) => void) => {
+  const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName === 'local' && changes[WATCHLISTS_STORAGE_KEY]) {
+      callback(changes[WATCHLISTS_STORAGE_KEY].newValue || []);
+    }
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+};
+
+export const getScheduleMinutes = (watchlist: Watchlist): number => {
+  switch (watchlist.schedule) {
+    case 'daily':
+      return 24 * 60;
+    case 'weekly':
+      return 7 * 24 * 60;
+    default:
+      return Math.max(1, watchlist.customIntervalHours || DEFAULT_CUSTOM_INTERVAL_HOURS) * 60;
+  }
+};
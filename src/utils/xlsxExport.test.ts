@@ -0,0 +1,73 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { CheckResult } from '../types/check';
+import { buildResultsCsv, UTF8_BOM } from './resultExport';
+import { buildResultsXlsx } from './xlsxExport';
+
+const results: CheckResult[] = [
+  { asin: 'B000000001', status: 'success', detailedStatus: 'Eligible', title: 'Lamp', brand: 'Acme', checkedAt: 0 },
+  { asin: 'B000000002', status: 'success', detailedStatus: 'Restricted', title: 'Kitap "Özel"', brand: 'Yayın' }
+];
+
+const readSheet = async (buffer: ArrayBuffer) => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  return workbook.getWorksheet('Results')!;
+};
+
+describe('buildResultsXlsx', () => {
+  it('writes one row per input ASIN, duplicates and missing results included', async () => {
+    const sheet = await readSheet(await buildResultsXlsx({
+      results,
+      inputOrder: ['B000000002', 'B000000001', 'B000000002', 'B000000003'],
+      language: 'en'
+    }));
+
+    expect(sheet.getRow(1).values).toEqual([undefined, 'ASIN', 'TITLE', 'BRAND', 'STATUS', 'CHECK DATE']);
+    expect(sheet.getColumn(1).values.slice(2)).toEqual(['B000000002', 'B000000001', 'B000000002', 'B000000003']);
+    expect(sheet.getRow(5).getCell(4).value).toBe('No Result');
+  });
+
+  it('colors status cells and keeps Turkish letters', async () => {
+    const sheet = await readSheet(await buildResultsXlsx({
+      results,
+      inputOrder: ['B000000001', 'B000000002'],
+      language: 'tr'
+    }));
+
+    const sellable = sheet.getRow(2).getCell(4);
+    expect(sellable.value).toBe('SATILABİLİR');
+    expect(sellable.fill).toMatchObject({ fgColor: { argb: 'FFD7F5E3' } });
+    expect(sheet.getRow(3).getCell(2).value).toBe('Kitap "Özel"');
+    expect(sheet.getRow(3).getCell(4).fill).toMatchObject({ fgColor: { argb: 'FFFADADA' } });
+  });
+
+  it('adds the source codes next to the ASIN', async () => {
+    const sheet = await readSheet(await buildResultsXlsx({
+      results,
+      inputOrder: ['B000000001'],
+      language: 'en',
+      identifiers: { B000000001: ['036000291452', '4006381333931'] }
+    }));
+
+    expect(sheet.getRow(1).getCell(2).value).toBe('UPC/EAN');
+    expect(sheet.getRow(2).getCell(2).value).toBe('036000291452, 4006381333931');
+  });
+});
+
+describe('buildResultsCsv', () => {
+  const options = { results, inputOrder: ['B000000002'], language: 'tr' as const };
+
+  it('is ASCII only for Turkish without a BOM, and escapes quotes', () => {
+    const csv = buildResultsCsv(options);
+    expect(csv.startsWith(UTF8_BOM)).toBe(false);
+    expect(csv.split('\n')[0]).toBe('ASIN,BASLIK,MARKA,DURUM,KONTROL TARIHI');
+    expect(csv.split('\n')[1]).toContain('"Kitap ""Özel""","Yayın","KISITLI"');
+  });
+
+  it('keeps Turkish letters in headers and statuses behind a UTF-8 BOM', () => {
+    const csv = buildResultsCsv({ ...options, utf8Bom: true });
+    expect(csv.startsWith(UTF8_BOM)).toBe(true);
+    expect(csv.slice(1).split('\n')[0]).toBe('ASIN,BAŞLIK,MARKA,DURUM,KONTROL TARİHİ');
+  });
+});
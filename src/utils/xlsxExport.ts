@@ -0,0 +1,189 @@
+// XLSX export - the CSV exports as formatted workbooks (colored status cells,
+// frozen header, autofilter), generated locally with exceljs
+
+import ExcelJS from 'exceljs';
+import { Language } from '../contexts/LanguageContext';
+import { CheckResult, StatusClass } from '../types/check';
+import { getConditionResult } from './conditions';
+import { buildMarketplaceMatrix, getMatrixHeaders } from './marketplaceMatrix';
+import {
+  ResultsCsvOptions,
+  getCSVStatus,
+  getCheckDateHeader,
+  getExportRows,
+  getImageHeader,
+  getResultHeaders,
+  hasIdentifierColumn
+} from './resultExport';
+import { PLACEHOLDER_IMAGE, getProductBrand, getProductImage, getProductTitle, getStatusClass } from './resultStatus';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface ResultsXlsxOptions extends Omit<ResultsCsvOptions, 'utf8Bom'> {
+  includeImages?: boolean; // adds an image column with links to the product images
+}
+
+type XlsxCell = string | Date | ExcelJS.CellHyperlinkValue | null;
+
+interface XlsxColumn {
+  header: string;
+  width: number;
+}
+
+interface XlsxRow {
+  values: XlsxCell[];
+  statuses: Record<number, StatusClass | undefined>; // column index -> status class
+}
+
+// Same palette as the status badges
+const STATUS_COLORS: Record<StatusClass, { fill: string; font: string }> = {
+  success: { fill: 'FFD7F5E3', font: 'FF00873A' },
+  warning: { fill: 'FFFFF1CC', font: 'FF8A5A00' },
+  error: { fill: 'FFFADADA', font: 'FFB00000' },
+  'not-found': { fill: 'FFEEEEEE', font: 'FF616161' }
+};
+
+const HEADER_FILL = 'FFE5E7EB';
+
+const getImageCell = (result: CheckResult, language: Language): XlsxCell => {
+  const url = getProductImage(result);
+  if (url === PLACEHOLDER_IMAGE) return null;
+  return { text: language === 'tr' ? 'Görsel' : 'Image', hyperlink: url };
+};
+
+// Dates are written as "yyyy-mm-dd hh:mm"
+const getColumnWidth = (header: string) => Math.max(18, header.length + 4);
+
+const buildWorkbook = async (columns: XlsxColumn[], rows: XlsxRow[]): Promise<ArrayBuffer> => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'FastChecker';
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet('Results', {
+    views: [{ state: 'frozen', xSplit: 1, ySplit: 1 }]
+  });
+  sheet.columns = columns.map(column => ({ header: column.header, width: column.width }));
+
+  const headerRow = sheet.getRow(1);
+  headerRow.font = { bold: true };
+  headerRow.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  });
+
+  rows.forEach(row => {
+    const added = sheet.addRow(row.values);
+    Object.entries(row.statuses).forEach(([index, statusClass]) => {
+      if (!statusClass) return;
+      const cell = added.getCell(Number(index) + 1);
+      const colors = STATUS_COLORS[statusClass];
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: colors.fill } };
+      cell.font = { bold: true, color: { argb: colors.font } };
+    });
+    added.eachCell(cell => {
+      if (cell.value instanceof Date) {
+        cell.numFmt = 'yyyy-mm-dd hh:mm';
+      } else if (cell.value && typeof cell.value === 'object' && 'hyperlink' in cell.value) {
+        cell.font = { color: { argb: 'FF0563C1' }, underline: true };
+      }
+    });
+  });
+
+  sheet.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: 1, column: columns.length }
+  };
+
+  return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+};
+
+export const buildResultsXlsx = ({
+  results,
+  inputOrder,
+  language,
+  identifiers = {},
+  conditions = [],
+  includeImages = false
+}: ResultsXlsxOptions): Promise<ArrayBuffer> => {
+  const hasIdentifiers = hasIdentifierColumn(results, identifiers);
+  const headers = getResultHeaders(language, hasIdentifiers, conditions);
+  const statusStart = hasIdentifiers ? 4 : 3;
+  const columns: XlsxColumn[] = headers.map((header, index) => ({
+    header,
+    width: index === statusStart - 2 ? 48 : getColumnWidth(header) // title
+  }));
+  if (includeImages) {
+    columns.splice(statusStart, 0, { header: getImageHeader(language), width: 10 });
+  }
+  const now = new Date();
+
+  const rows = getExportRows(results, inputOrder, identifiers).map(({ asin, identifier, result }) => {
+    const values: XlsxCell[] = [asin];
+    const statuses: XlsxRow['statuses'] = {};
+    if (hasIdentifiers) values.push(identifier);
+
+    if (!result) {
+      values.push('N/A', 'N/A');
+      if (includeImages) values.push(null);
+      values.push('No Result', ...conditions.map(() => 'N/A'), now);
+      return { values, statuses };
+    }
+
+    values.push(getProductTitle(result), getProductBrand(result));
+    if (includeImages) values.push(getImageCell(result, language));
+
+    statuses[values.length] = getStatusClass(result);
+    values.push(getCSVStatus(result, language, false));
+    conditions.forEach(condition => {
+      const conditionResult = getConditionResult(result, condition);
+      if (conditionResult) statuses[values.length] = getStatusClass(conditionResult);
+      values.push(conditionResult ? getCSVStatus(conditionResult, language, false) : 'N/A');
+    });
+    values.push(result.checkedAt ? new Date(result.checkedAt) : now);
+    return { values, statuses };
+  });
+
+  return buildWorkbook(columns, rows);
+};
+
+export const buildMatrixXlsx = (
+  results: CheckResult[],
+  inputOrder: string[],
+  marketplaces: string[],
+  language: Language,
+  includeImages = false
+): Promise<ArrayBuffer> => {
+  const columns: XlsxColumn[] = getMatrixHeaders(marketplaces, language).map((header, index) => ({
+    header,
+    width: index === 1 ? 48 : getColumnWidth(header) // title
+  }));
+  if (includeImages) {
+    columns.splice(3, 0, { header: getImageHeader(language), width: 10 });
+  }
+  columns.push({ header: getCheckDateHeader(language), width: 18 });
+
+  const rowsByAsin = new Map(buildMarketplaceMatrix(results).map(row => [row.asin, row]));
+  const now = new Date();
+
+  const rows = inputOrder.map(asin => {
+    const row = rowsByAsin.get(asin);
+    const statuses: XlsxRow['statuses'] = {};
+    if (!row) {
+      return {
+        values: [asin, 'N/A', 'N/A', ...(includeImages ? [null] : []), ...marketplaces.map(() => 'No Result'), now],
+        statuses
+      };
+    }
+
+    const values: XlsxCell[] = [asin, getProductTitle(row.result), getProductBrand(row.result)];
+    if (includeImages) values.push(getImageCell(row.result, language));
+    marketplaces.forEach(code => {
+      const cell = row.cells[code];
+      if (cell) statuses[values.length] = getStatusClass(cell);
+      values.push(cell ? getCSVStatus(cell, language, false) : 'No Result');
+    });
+    values.push(row.result.checkedAt ? new Date(row.result.checkedAt) : now);
+    return { values, statuses };
+  });
+
+  return buildWorkbook(columns, rows);
+};
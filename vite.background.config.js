@@ -0,0 +1,27 @@
+import { defineConfig } from 'vite'
+import { resolve } from 'path'
+
+// Background service worker bundle - built separately because IIFE output
+// can't be shared between several entry points
+export default defineConfig({
+  build: {
+    outDir: 'build',
+    emptyOutDir: false,
+    rollupOptions: {
+      input: {
+        background: resolve(__dirname, 'src/background.ts')
+      },
+      output: {
+        entryFileNames: '[name].js',
+        format: 'iife',
+        name: 'FastCheckerBackground'
+      }
+    },
+    target: 'es2020',
+    minify: false,
+    sourcemap: false
+  },
+  define: {
+    'process.env.NODE_ENV': '"production"'
+  }
+})
@@ -0,0 +1,27 @@
+import { defineConfig } from 'vite'
+import { resolve } from 'path'
+
+// Content script bundle for Amazon pages - separate for the same reason as
+// the background bundle (one IIFE entry per build)
+export default defineConfig({
+  build: {
+    outDir: 'build',
+    emptyOutDir: false,
+    rollupOptions: {
+      input: {
+        content: resolve(__dirname, 'src/content.ts')
+      },
+      output: {
+        entryFileNames: '[name].js',
+        format: 'iife',
+        name: 'FastCheckerContent'
+      }
+    },
+    target: 'es2020',
+    minify: false,
+    sourcemap: false
+  },
+  define: {
+    'process.env.NODE_ENV': '"production"'
+  }
+})